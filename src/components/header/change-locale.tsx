@@ -1,7 +1,14 @@
-import { $, component$, useTask$ } from '@builder.io/qwik';
+import { component$, useTask$ } from '@builder.io/qwik';
 import { useLocation, useNavigate } from '@builder.io/qwik-city';
 
-import { changeLocale, $translate as t, useSpeakContext, SpeakLocale, useSpeakLocale, useSpeakConfig } from 'qwik-speak';
+import {
+  changeLocale,
+  $translate as t,
+  useSpeakContext,
+  useSpeakLocale,
+  useSpeakConfig
+} from 'qwik-speak';
+import { getUrlLang, useLocalizedUrl } from 'qwik-speak/routing';
 
 export const ChangeLocale = component$(() => {
   const loc = useLocation();
@@ -13,40 +20,36 @@ export const ChangeLocale = component$(() => {
 
   // Handle localized routing
   useTask$(async ({ track }) => {
-    track(() => loc.params.lang);
+    track(() => loc.href);
 
-    const newLocale = config.supportedLocales.find(value => value.lang === loc.params.lang) || config.defaultLocale;
+    const lang = getUrlLang(loc.href, config);
+    const newLocale = config.supportedLocales.find(value => value.lang === lang) || config.defaultLocale;
     if (newLocale.lang !== locale.lang) {
       await changeLocale(newLocale, ctx);
     }
   });
 
   // Replace locale in URL
-  const localizeUrl$ = $(async (newLocale: SpeakLocale) => {
-    let pathname = loc.pathname;
-    if (loc.params.lang) {
-      if (newLocale.lang !== config.defaultLocale.lang) {
-        pathname = pathname.replace(loc.params.lang, newLocale.lang);
-      } else {
-        pathname = pathname.replace(new RegExp(`(/${loc.params.lang}/)|(/${loc.params.lang}$)`), '/');
-      }
-    } else if (newLocale.lang !== config.defaultLocale.lang) {
-      pathname = `/${newLocale.lang}${pathname}`;
-    }
-
-    // No full-page reload
-    nav(pathname);
-  });
+  const localizeUrl = useLocalizedUrl();
 
   return (
     <div class="change-locale">
       <span>{t('app.changeLocale')}</span>
-      {config.supportedLocales.map(value => (
-        <div class={{ active: value.lang == locale.lang, button: true }}
-          onClick$={async () => await localizeUrl$(value)}>
-          {value.lang}
-        </div>
-      ))}
+      {config.supportedLocales.map(value => {
+        const url = localizeUrl(value.lang);
+        return (
+          // No full-page reload, except on the domain of another language
+          <div
+            class={{ active: value.lang == locale.lang, button: true }}
+            onClick$={() => {
+              if (url.startsWith('/')) nav(url);
+              else location.href = url;
+            }}
+          >
+            {value.lang}
+          </div>
+        );
+      })}
     </div>
   );
 });
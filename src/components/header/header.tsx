@@ -1,6 +1,7 @@
 import { component$, useStyles$ } from '@builder.io/qwik';
-import { Link, useLocation } from '@builder.io/qwik-city';
-import { $translate as t, useSpeakConfig, useSpeakLocale } from 'qwik-speak';
+import { useLocation } from '@builder.io/qwik-city';
+import { $translate as t, useSpeakConfig } from 'qwik-speak';
+import { getRoutePath, LocalizedLink } from 'qwik-speak/routing';
 
 import { ChangeLocale } from './change-locale';
 
@@ -9,29 +10,25 @@ import styles from './header.css?inline';
 export const Header = component$(() => {
   useStyles$(styles);
 
-  const pathname = useLocation().pathname;
-  const lang = useSpeakLocale().lang;
   const config = useSpeakConfig();
-
-  const getHref = (name: string) => {
-    return lang === config.defaultLocale.lang ? name : `/${lang}${name}`
-  };
+  const loc = useLocation();
+  const route = getRoutePath(loc.pathname, config, loc.params);
 
   return (
     <header>
       <div class="header-inner">
         <section class="logo">
-          <Link href={getHref('/')}>Qwik Speak ⚡️</Link>
+          <LocalizedLink href="/">Qwik Speak ⚡️</LocalizedLink>
         </section>
         <nav>
-          <Link href={getHref('/')}
-            class={{ active: pathname === '/' || config.supportedLocales.some(x => pathname.endsWith(`${x.lang}/`)) }}>
+          <LocalizedLink href="/"
+            class={{ active: route === '/' }}>
             {t('app.nav.home')}
-          </Link>
-          <Link href={getHref('/page')}
-            class={{ active: pathname.endsWith('/page/') }}>
+          </LocalizedLink>
+          <LocalizedLink href="/page"
+            class={{ active: route === '/page/' }}>
             {t('app.nav.page')}
-          </Link>
+          </LocalizedLink>
         </nav>
         <ChangeLocale />
       </div>
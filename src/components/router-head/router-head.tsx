@@ -1,6 +1,6 @@
 import { component$ } from '@builder.io/qwik';
 import { useDocumentHead, useLocation } from '@builder.io/qwik-city';
-import { $translate as t } from 'qwik-speak';
+import { LocalizedHead } from 'qwik-speak/routing';
 
 /**
  * The RouterHead component is placed inside of the document `<head>` element.
@@ -11,16 +11,12 @@ export const RouterHead = component$(() => {
 
   return (
     <>
-      <title>{t(head.title, { name: 'Qwik Speak' })}</title>
+      <LocalizedHead params={{ name: 'Qwik Speak' }} />
 
       <link rel="canonical" href={loc.href} />
       <meta name="viewport" content="width=device-width, initial-scale=1.0" />
       <link rel="icon" type="image/svg+xml" href="/favicon.svg" />
 
-      {head.meta.map((m) => (
-        <meta name={m.name} content={m.name === 'description' ? t(m.content!) : m.content} />
-      ))}
-
       {head.links.map((l) => (
         <link {...l} />
       ))}
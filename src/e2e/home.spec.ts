@@ -18,6 +18,14 @@ test.describe('Home', () => {
       );
   });
 
+  test('localized head', async ({ page }) => {
+    await expect(page.locator('link[hreflang="it-IT"]')).toHaveAttribute('href', /\/it-IT\/$/);
+    await expect(page.locator('link[hreflang="en-US"]')).toHaveAttribute('href', /\/$/);
+    await expect(page.locator('link[hreflang="x-default"]')).toHaveAttribute('href', /\/$/);
+    await expect(page.locator('meta[property="og:locale"]')).toHaveAttribute('content', 'en_US');
+    await expect(page.locator('meta[property="og:locale:alternate"]')).toHaveAttribute('content', 'it_IT');
+  });
+
   test('change language', async ({ page }) => {
     await page.locator('text=it-IT').click();
 
@@ -24,4 +24,31 @@ test.describe('Page', () => {
     await expect(page).toHaveTitle('Pagina - Qwik Speak');
     await expect(page.locator('meta[name="description"]')).toHaveAttribute('content', "Io sono un'altra pagina");
   });
+
+  test('localized links', async ({ page }) => {
+    await expect(page.locator('header nav a').nth(1)).toHaveAttribute('href', '/page');
+
+    await page.locator('text=it-IT').click();
+
+    await expect(page).toHaveURL(/\/it-IT\/pagina\/?$/);
+    await expect(page.locator('header nav a').nth(0)).toHaveAttribute('href', '/it-IT/');
+    await expect(page.locator('header nav a').nth(1)).toHaveAttribute('href', '/it-IT/pagina');
+
+    await page.locator('text=en-US').click();
+
+    await expect(page).toHaveURL(/\/page\/?$/);
+    await expect(page).not.toHaveURL(/it-IT/);
+    await expect(page.locator('header nav a').nth(1)).toHaveAttribute('href', '/page');
+  });
+
+  test('translated route segments', async ({ page }) => {
+    await page.goto('/it-IT/page/');
+
+    await expect(page).toHaveURL(/\/it-IT\/pagina\/$/);
+    await expect(page.locator('main')).toContainText('Traduci le tue app Qwik in qualsiasi lingua');
+
+    await page.goto('/pagina/');
+
+    await expect(page).toHaveURL(/\/page\/$/);
+  });
 });
@@ -12,6 +12,8 @@
  */
 import { RenderOptions, renderToStream, RenderToStreamOptions } from '@builder.io/qwik/server';
 import { manifest } from '@qwik-client-manifest';
+import { getDirection, matchLocale } from 'qwik-speak';
+
 import Root from './root';
 import { config } from './speak-config';
 
@@ -24,13 +26,16 @@ export function extractBase({ serverData }: RenderOptions): string {
 }
 
 export default function (opts: RenderToStreamOptions) {
+  const locale = matchLocale(opts.serverData?.locale, config.supportedLocales) ?? config.defaultLocale;
+
   return renderToStream(<Root />, {
     manifest,
     ...opts,
     //base: extractBase,
     // Use container attributes to set attributes on the html tag.
     containerAttributes: {
-      lang: opts.serverData?.locale || config.defaultLocale.lang,
+      lang: locale.lang,
+      dir: getDirection(locale),
       ...opts.containerAttributes,
     },
   });
@@ -7,27 +7,64 @@ export type {
   SpeakState,
   InternalSpeakState,
   LoadTranslationFn,
+  HandleMissingTranslationFn,
+  FormatterFn,
+  TranslationCacheOptions,
+  RetryOptions,
+  PersistenceOptions,
+  SpeakDomain,
+  PseudoLocaleOptions,
+  SpeakDebug,
+  KeyUsage,
+  SpeakStatus,
+  SpeakError,
+  EscapeFn,
+  TranslationSeparators,
+  TranslationAssets,
+  TranslationKeys,
+  PluralKeys,
+  TranslationKey,
+  TranslationParams,
+  PluralPrefix,
+  ScopedTranslationKey,
+  TranslateFn,
 } from './library/types';
+export type { TrustedParam } from './library/escape';
 export type { QwikSpeakProps } from './library/qwik-speak-component';
 export type { SpeakProps } from './library/speak-component';
+export type { TransProps } from './library/trans-component';
+export type { SpeakInspectorProps } from './library/speak-inspector-component';
 // Components
 export { QwikSpeakProvider } from './library/qwik-speak-component';
 export { Speak } from './library/speak-component';
+export { Trans } from './library/trans-component';
+export { SpeakInspector } from './library/speak-inspector-component';
 // Functions
-export { $translate } from './library/translate';
+export { $translate, useTranslate } from './library/translate';
 export { $plural } from './library/plural';
 export { formatNumber } from './library/format-number';
 export { formatDate } from './library/format-date';
 export { relativeTime } from './library/relative-time';
+export { formatList } from './library/format-list';
+export { displayName } from './library/display-name';
 export { changeLocale } from './library/change-locale';
+export { getPersistedLang } from './library/persistence';
+export { clearTranslationCache } from './library/cache';
+export { matchLocale, negotiateLocale } from './library/resolve-locale';
+export { getDomainLang } from './library/domain';
+export { getDirection } from './library/direction';
+export { pseudoLocalize } from './library/pseudo-locale';
+export { trusted } from './library/escape';
 // Use functions
 export {
   useSpeakContext,
   useSpeakLocale,
   useSpeakConfig,
+  useSpeakDirection,
 } from './library/use-functions';
 // Inline functions
 export {
   $lang,
   $rule,
+  $escape,
 } from './library/inline-functions';
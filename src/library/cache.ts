@@ -0,0 +1,158 @@
+import type { SpeakState } from './types';
+
+export interface Cache<T> {
+  get: (key: string) => T | undefined;
+  set: (key: string, value: T) => void;
+  delete: (key: string) => void;
+  clear: () => void;
+  keys: () => string[];
+  readonly size: number;
+}
+
+/**
+ * Create a cache bounded to max size: the least recently used entry is removed first.
+ * Optionally, entries expire after ttl milliseconds
+ */
+export const createCache = <T>(maxSize: number, ttl?: number): Cache<T> => {
+  // Map keeps insertion order: the least recently used entry is the first one
+  const entries = new Map<string, { value: T, expires: number }>();
+
+  return {
+    get: (key: string) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      entries.delete(key);
+      if (entry.expires < Date.now()) return undefined;
+
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set: (key: string, value: T) => {
+      entries.delete(key);
+      if (entries.size >= maxSize) {
+        entries.delete(entries.keys().next().value);
+      }
+      entries.set(key, { value, expires: ttl ? Date.now() + ttl : Infinity });
+    },
+    delete: (key: string) => {
+      entries.delete(key);
+    },
+    clear: () => {
+      entries.clear();
+    },
+    keys: () => [...entries.keys()],
+    get size() {
+      return entries.size;
+    }
+  };
+};
+
+/**
+ * Max number of cached Intl objects
+ */
+export const MAX_FORMATTERS = 500;
+
+const formatters = createCache<any>(MAX_FORMATTERS);
+
+/**
+ * Get a cached Intl object by type, lang and options, or create it
+ */
+export const getFormatter = <T>(type: string, lang: string, options: object | undefined, create: () => T): T => {
+  const key = `${type}|${lang}|${normalizeOptions(options)}`;
+
+  let formatter: T | undefined = formatters.get(key);
+  if (formatter === undefined) {
+    formatter = create();
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Clear the cached Intl objects
+ */
+export const clearFormatters = (): void => formatters.clear();
+
+/**
+ * Options with the same properties produce the same key, regardless of the order
+ */
+export const normalizeOptions = (options: object | undefined): string => {
+  if (!options) return '';
+
+  return JSON.stringify(Object.entries(options)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0));
+};
+
+/**
+ * Max number of origins with their own cache of translation data
+ */
+export const MAX_ORIGINS = 100;
+
+// Global and origin caches of translation data
+const translationCaches = createCache<Cache<Promise<any>>>(MAX_ORIGINS);
+// Request caches of translation data
+const requestCaches = new WeakMap<SpeakState, { version: number, cache: Cache<Promise<any>> }>();
+// Invalidates request caches
+let version = 0;
+
+/**
+ * Get the cache of translation data according to its scope
+ * @param ctx Speak context: in request scope, the cache lives as long as the context
+ * @param origin Optional origin of the request
+ * @returns The cache, or undefined if disabled
+ */
+export const getTranslationCache = (ctx: SpeakState, origin?: string): Cache<Promise<any>> | undefined => {
+  const { scope = 'global', maxSize = 100, ttl } = ctx.config.translationCache ?? {};
+
+  switch (scope) {
+    case 'none':
+      return undefined;
+    case 'request': {
+      let requestCache = requestCaches.get(ctx);
+      if (!requestCache || requestCache.version !== version) {
+        requestCache = { version, cache: createCache(maxSize, ttl) };
+        requestCaches.set(ctx, requestCache);
+      }
+      return requestCache.cache;
+    }
+    default: {
+      const key = scope === 'origin' ? `origin|${origin ?? ''}` : 'global';
+      let cache = translationCaches.get(key);
+      if (!cache) {
+        cache = createCache(maxSize, ttl);
+        translationCaches.set(key, cache);
+      }
+      return cache;
+    }
+  }
+};
+
+/**
+ * Invalidate cached translation data: it will be loaded again when needed.
+ * Without arguments, the whole cache is cleared, request caches included.
+ * A language or an asset is invalidated in the global and origin caches only,
+ * since request caches live as long as the context
+ * @param lang Optional language to invalidate
+ * @param asset Optional asset to invalidate
+ */
+export const clearTranslationCache = (lang?: string, asset?: string): void => {
+  if (!lang && !asset) version++;
+
+  for (const key of translationCaches.keys()) {
+    const cache = translationCaches.get(key);
+    if (!cache) continue;
+
+    if (!lang && !asset) {
+      cache.clear();
+      continue;
+    }
+    for (const cacheKey of cache.keys()) {
+      const [cachedLang, cachedAsset] = JSON.parse(cacheKey);
+      if ((!lang || cachedLang === lang) && (!asset || cachedAsset === asset)) {
+        cache.delete(cacheKey);
+      }
+    }
+  }
+};
@@ -1,18 +1,96 @@
 import type { SpeakLocale, SpeakState } from './types';
+import { loadTranslations } from './core';
+import { getDirection } from './direction';
+import { getPersistedLang, persistLang } from './persistence';
+import { matchLocale } from './resolve-locale';
+
+// Last locale change of each context, while loading
+const changes = new WeakMap<SpeakState, { id: number, lang: string }>();
+let lastChange = 0;
 
 /**
- * Change locale at runtime: loads translation data and rerenders components that uses translations.
+ * Load translation data and set the new locale
+ * @returns False if the change has been superseded by another one before loading completed
+ */
+const setLocale = async (newLocale: SpeakLocale, ctx: SpeakState, origin?: string): Promise<boolean> => {
+  const { locale, config, scopes } = ctx;
+
+  if (!config.supportedLocales.find(value => value.lang === newLocale.lang)) {
+    newLocale = config.defaultLocale;
+  }
+
+  const change = { id: ++lastChange, lang: newLocale.lang };
+  changes.set(ctx, change);
+
+  // Preload translation data
+  const assets = new Set([...config.assets, ...Object.values(scopes).flat()]);
+  await loadTranslations(ctx, origin, [], [...assets], newLocale.lang);
+
+  // Superseded
+  if (changes.get(ctx) !== change) return false;
+  changes.delete(ctx);
+
+  // Update state
+  Object.assign(locale, newLocale, { dir: getDirection(newLocale) });
+  return true;
+};
+
+/**
+ * Change locale at runtime: loads translation data of the provider and of the mounted Speak components,
+ * then sets the new locale and rerenders components that uses translations.
+ * During loading, the status of Speak context is 'loading'.
+ * If persistence is enabled in Speak config, the new locale is persisted and posted to the other tabs.
  * Fallback to the default locale if the new locale is not in supported locales
  * @param newLocale The new locale to set
  * @param ctx Speak context
+ * @param origin Optional origin to load translation data on server
+ * @returns False if the change has been superseded by another one before loading completed
  */
-export const changeLocale = async (newLocale: SpeakLocale, ctx: SpeakState): Promise<void> => {
-  const { locale, config } = ctx;
+export const changeLocale = async (newLocale: SpeakLocale, ctx: SpeakState, origin?: string): Promise<boolean> => {
+  if (!await setLocale(newLocale, ctx, origin)) return false;
 
-  // Update state
-  if (config.supportedLocales.find(value => value.lang === newLocale.lang)) {
-    Object.assign(locale, newLocale);
-  } else {
-    Object.assign(locale, config.defaultLocale);
-  }
+  persistLang(ctx.locale.lang, ctx.config);
+  return true;
+};
+
+/**
+ * Apply a locale restored on client or posted by another tab:
+ * unlike changeLocale, it is not persisted and posted again.
+ * Nothing changes if the locale is the one being loaded, or the current one when nothing is loading
+ * @param newLocale The new locale to set
+ * @param ctx Speak context
+ * @returns False if the locale has not been applied
+ */
+export const syncLocale = async (newLocale: SpeakLocale, ctx: SpeakState): Promise<boolean> => {
+  const targetLang = changes.get(ctx)?.lang ?? ctx.locale.lang;
+  if (newLocale.lang === targetLang) return false;
+
+  return setLocale(newLocale, ctx);
+};
+
+/**
+ * Restore the persisted locale on client, and apply the locales posted by the other tabs.
+ * They are already persisted: they are not persisted and posted again
+ * @param ctx Speak context
+ * @returns A function to stop listening to the other tabs, if any
+ */
+export const syncPersistedLocale = (ctx: SpeakState): (() => void) | undefined => {
+  const { config } = ctx;
+  const { persistence } = config;
+  // E.g. server or testing environments
+  if (!persistence || typeof document === 'undefined') return;
+
+  const setLang = (lang?: string) => {
+    const newLocale = lang ? matchLocale(lang, config.supportedLocales) : undefined;
+    if (newLocale) syncLocale(newLocale, ctx);
+  };
+
+  if (persistence.restoreOnClient) setLang(getPersistedLang(config));
+
+  const channel = persistence.channel ?? 'qwik-speak';
+  if (!channel || typeof BroadcastChannel === 'undefined') return;
+
+  const broadcastChannel = new BroadcastChannel(channel);
+  broadcastChannel.onmessage = (event: MessageEvent) => setLang(event.data?.lang);
+  return () => broadcastChannel.close();
 };
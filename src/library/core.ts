@@ -1,28 +1,50 @@
-import type { Translation, SpeakState, LoadTranslationFn } from './types';
+import type { QRL } from '@builder.io/qwik';
 
-const cache: Record<string, Promise<any>> = {};
+import type { Translation, SpeakState, LoadTranslationFn, SpeakConfig, SpeakLocale, RetryOptions } from './types';
+import { formatMessage } from './message-format';
+import { formatParam } from './format-param';
+import { escapeParam, isTrusted } from './escape';
+import type { Cache } from './cache';
+import { getTranslationCache } from './cache';
+import { getPseudoSourceLang, isPseudoLang, pseudoLocalize } from './pseudo-locale';
+import { recordAssetKeys } from './debug';
+import { deepMerge } from './merge';
+import { getKeyValue, resolveLinks } from './links';
 
 /**
- * In SPA mode, cache the results
+ * Cache the results: rejected promises are removed
  */
-export const memoize = (fn: LoadTranslationFn) => {
+export const memoize = (fn: LoadTranslationFn, cache?: Cache<Promise<any>>) => {
   return (...args: [string, string, string | undefined]) => {
-    const stringArgs = JSON.stringify(args);
+    if (!cache) return fn(...args);
 
-    return stringArgs in cache ?
-      cache[stringArgs] :
-      cache[stringArgs] = fn(...args);
+    const key = JSON.stringify(args);
+
+    let result = cache.get(key);
+    if (!result) {
+      result = fn(...args);
+      cache.set(key, result);
+      result.catch(() => {
+        if (cache.get(key) === result) cache.delete(key);
+      });
+    }
+    return result;
   };
 };
 
+// Pending loads of each context
+const pendingLoads = new WeakMap<SpeakState, number>();
+
 /**
- * Load translations
+ * Load translations.
+ * Failed assets don't prevent the others from loading: they are retried if configured, and then added to errors
  */
 export const loadTranslations = async (
   ctx: SpeakState,
   origin?: string,
   langs?: string[],
-  assets?: string[]
+  assets?: string[],
+  lang?: string
 ): Promise<void> => {
   const { locale, translation, config, translationFn } = ctx;
 
@@ -30,19 +52,64 @@ export const loadTranslations = async (
 
   // Multilingual
   const resolvedLangs = new Set(langs || []);
-  resolvedLangs.add(locale.lang);
+  resolvedLangs.add(lang ?? locale.lang);
+
+  // Fallback chain
+  for (const lang of [...resolvedLangs]) {
+    getFallbackLangs(lang, config).forEach(x => resolvedLangs.add(x));
+  }
+
+  pendingLoads.set(ctx, (pendingLoads.get(ctx) ?? 0) + 1);
+  ctx.status = 'loading';
+
+  const memoized = memoize(translationFn.loadTranslation$, getTranslationCache(ctx, origin));
+
+  try {
+    for (const lang of resolvedLangs) {
+      // The pseudo-locale has no assets
+      if (isPseudoLang(lang, config)) continue;
 
-  for (const lang of resolvedLangs) {
-    const memoized = memoize(translationFn.loadTranslation$);
-    const tasks = assets.map(asset => memoized(lang, asset, origin));
-    const sources = await Promise.all(tasks);
+      const tasks = assets.map(asset => withRetry(() => memoized(lang, asset, origin), config.retry));
+      const results = await Promise.allSettled(tasks);
+
+      // Later assets win
+      for (const [i, result] of results.entries()) {
+        const asset = assets[i];
+        ctx.errors = ctx.errors.filter(x => x.lang !== lang || x.asset !== asset);
+
+        if (result.status === 'fulfilled') {
+          if (result.value) deepMerge(translation[lang], result.value);
+          if (result.value && config.debug) recordAssetKeys(ctx, lang, asset, result.value);
+        } else {
+          ctx.errors = [...ctx.errors, { lang, asset, message: getErrorMessage(result.reason) }];
+        }
+      }
+    }
+  } finally {
+    const pending = (pendingLoads.get(ctx) ?? 1) - 1;
+    pendingLoads.set(ctx, pending);
+    if (pending === 0) ctx.status = ctx.errors.length > 0 ? 'error' : 'loaded';
+  }
+};
+
+/**
+ * Retry a failed task with exponential backoff
+ */
+export const withRetry = async <T>(task: () => Promise<T>, options?: RetryOptions): Promise<T> => {
+  const { retries = 0, delay = 300, factor = 2 } = options ?? {};
 
-    for (const data of sources) {
-      if (data) Object.assign(translation[lang], data); // Shallow merge
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries) throw error;
+      await new Promise(resolve => setTimeout(resolve, delay * factor ** attempt));
     }
   }
 };
 
+const getErrorMessage = (error: any): string => error instanceof Error ? error.message : `${error}`;
+
 /**
  * Get the value of a key
  */
@@ -51,20 +118,137 @@ export const getValue = (
   data: Translation,
   params?: any,
   keySeparator = '.',
-  keyValueSeparator = '@@'
+  keyValueSeparator = '@@',
+  ctx?: SpeakState,
+  lang?: string
 ): string | undefined => {
   let defaultValue: string | undefined = undefined;
 
   [key, defaultValue] = separateKeyValue(key, keyValueSeparator);
 
-  const value = key.split(keySeparator).reduce((acc, cur) =>
-    (acc && acc[cur] !== undefined) ?
-      acc[cur] :
-      undefined, data);
+  // The pseudo-locale has the values of its source language
+  const pseudoLocale = ctx && isPseudoLang(lang ?? ctx.locale.lang, ctx.config) ? ctx.config.pseudoLocale : undefined;
+  if (ctx && pseudoLocale) data = ctx.translation[getPseudoSourceLang(ctx.config)];
+
+  const toValue = (value: string, valueData: Translation): string => {
+    value = resolveLinks(value, valueData, keySeparator, [key]);
+    if (pseudoLocale) value = pseudoLocalize(value, pseudoLocale, ctx?.config.messageFormat);
+    return transpileValue(value, params, ctx, lang);
+  };
+
+  let valueData = data;
+  let value: any = getKeyValue(key, data, keySeparator);
+
+  // Fallback chain: links are resolved against the data of the language that provides the value
+  if (typeof value !== 'string' && ctx) {
+    for (const fallbackLang of getFallbackLangs(lang ?? ctx.locale.lang, ctx.config)) {
+      valueData = ctx.translation[fallbackLang];
+      value = getKeyValue(key, valueData, keySeparator);
+      if (typeof value === 'string') break;
+    }
+  }
+
+  if (typeof value === 'string') {
+    return toValue(value, valueData);
+  }
+
+  return defaultValue ? toValue(defaultValue, data) : undefined;
+};
+
+/**
+ * Transpile the value according to the message format
+ */
+export const transpileValue = (value: string, params?: any, ctx?: SpeakState, lang?: string): string => {
+  if (ctx?.config.messageFormat === 'icu') {
+    const [locale, localeLang] = getLocale(ctx, lang);
+    return formatMessage(value, params, locale, localeLang, param => escapeParam(param, ctx));
+  }
+
+  return params ? transpileParams(value, params, ctx, lang) : value;
+};
+
+/**
+ * Get the locale of a language, and the language itself if it is not a supported locale (multilingual)
+ */
+export const getLocale = (ctx: SpeakState, lang?: string): [SpeakLocale, string | undefined] => {
+  const locale = !lang || lang === ctx.locale.lang ?
+    ctx.locale :
+    ctx.config.supportedLocales.find(x => x.lang === lang);
+  return [locale ?? ctx.locale, locale ? undefined : lang];
+};
+
+/**
+ * QRLs expose getFn, which returns their function bound to the captured lexical scope.
+ * Once the QRL has been resolved, the function runs synchronously
+ */
+interface InvokableQrl<T extends (...args: any[]) => any> extends QRL<T> {
+  getFn(): (...args: Parameters<T>) => ReturnType<T> | Promise<ReturnType<T>>;
+}
+
+const isInvokable = <T extends (...args: any[]) => any>(qrl: QRL<T>): qrl is InvokableQrl<T> => {
+  return typeof (qrl as Partial<InvokableQrl<T>>).getFn === 'function';
+};
+
+/**
+ * Invoke a QRL synchronously.
+ * Returns undefined if the QRL has not been resolved yet: in this case it is invoked asynchronously,
+ * and the callers fall back to their defaults
+ */
+export const invokeQrl = <T extends (...args: any[]) => any>(
+  qrl: QRL<T>,
+  ...args: Parameters<T>
+): ReturnType<T> | undefined => {
+  if (!isInvokable(qrl)) return undefined;
+
+  const result = qrl.getFn()(...args);
+
+  if (result instanceof Promise) {
+    // The result is not used: rejections are ignored like the result itself
+    result.catch(() => undefined);
+    return undefined;
+  }
+  return result;
+};
+
+/**
+ * Resolve the functions of the context, to invoke them synchronously
+ */
+export const resolveFunctions = async (ctx: SpeakState): Promise<void> => {
+  const { config, translationFn } = ctx;
+
+  await Promise.all([
+    translationFn.handleMissingTranslation$.resolve(),
+    ...Object.values(config.formatters ?? {}).map(formatter => formatter.resolve()),
+    ...(config.escape && typeof config.escape !== 'string' ? [config.escape.resolve()] : [])
+  ]);
+};
+
+/**
+ * Get the fallback chain of a language
+ */
+export const getFallbackLangs = (lang: string, config: SpeakConfig): string[] => {
+  // The pseudo-locale has the values of its source language
+  const sourceLang = getPseudoSourceLang(config);
+  if (isPseudoLang(lang, config) && sourceLang !== lang) {
+    return [...new Set([sourceLang, ...getFallbackLangs(sourceLang, config)])].filter(x => x !== lang);
+  }
 
-  if (typeof value === 'string') return params ? transpileParams(value, params) : value;
+  if (!config.fallbackLangs) return [];
+
+  const fallbackLangs = new Set([...(config.fallbackLangs[lang] ?? []), config.defaultLocale.lang]);
+  fallbackLangs.delete(lang);
+  return [...fallbackLangs];
+};
 
-  return defaultValue ? transpileParams(defaultValue, params) : undefined;
+/**
+ * Get supported languages and their fallbacks
+ */
+export const getLangs = (config: SpeakConfig): string[] => {
+  const langs = new Set(config.supportedLocales.map(value => value.lang));
+  for (const lang of [...langs]) {
+    getFallbackLangs(lang, config).forEach(x => langs.add(x));
+  }
+  return [...langs];
 };
 
 /**
@@ -75,12 +259,22 @@ export const separateKeyValue = (key: string, keyValueSeparator: string): [strin
 };
 
 /**
- * Replace params in the value
+ * Replace params in the value.
+ * Params can be formatted according to the locale: '{{ param, format:arg }}', and are escaped according to the config
  */
-export const transpileParams = (value: string, params: any): string => {
-  const replacedValue = value.replace(/{{\s?([^{}\s]*)\s?}}/g, (substring: string, parsedKey: string) => {
-    const replacer = params[parsedKey];
-    return replacer !== undefined ? replacer : substring;
-  });
+export const transpileParams = (value: string, params: any, ctx?: SpeakState, lang?: string): string => {
+  const replacedValue = value.replace(
+    /{{\s*([^{}\s,]*)\s*(?:,\s*([^{}\s:]+)(?::([^{}\s]+))?\s*)?}}/g,
+    (substring: string, parsedKey: string, format?: string, arg?: string) => {
+      const replacer = params[parsedKey];
+      if (replacer === undefined) return substring;
+
+      if (format && ctx && !isTrusted(replacer)) {
+        const [locale, localeLang] = getLocale(ctx, lang);
+        const formatted = formatParam(replacer, format, arg, locale, localeLang, ctx.config.formatters);
+        if (formatted !== undefined) return escapeParam(formatted, ctx);
+      }
+      return escapeParam(replacer, ctx);
+    });
   return replacedValue;
 };
@@ -0,0 +1,146 @@
+import type { KeyUsage, SpeakState, Translation } from './types';
+import { isPseudoLang } from './pseudo-locale';
+
+export interface InspectorReport {
+  /**
+   * The keys used, in order of occurrence
+   */
+  keys: KeyUsage[];
+  /**
+   * The keys resolved from their default value
+   */
+  defaults: string[];
+  /**
+   * The keys used without value in the assets, by language of the supported locales
+   */
+  missing: { [lang: string]: string[] };
+}
+
+// Key usages of each context, collected outside the state: it cannot be mutated inside render functions
+const collectedUsages = new WeakMap<SpeakState, { [id: string]: KeyUsage }>();
+
+const recordKeyUsage = (ctx: SpeakState, usage: KeyUsage): void => {
+  let usages = collectedUsages.get(ctx);
+  if (!usages) {
+    usages = {};
+    collectedUsages.set(ctx, usages);
+  }
+  usages[`${usage.lang}|${usage.key}`] = usage;
+};
+
+/**
+ * Add the key usages collected by the render to the state, so that the usages of the server render,
+ * whose components are not rendered again on client, are serialized for SpeakInspector.
+ * Call it outside render functions, e.g. when the server pauses the state
+ */
+export const saveKeyUsages = (ctx: SpeakState): void => {
+  const usages = collectedUsages.get(ctx);
+  if (!usages) return;
+
+  collectedUsages.delete(ctx);
+  ctx.keyUsages = { ...ctx.keyUsages, ...usages };
+};
+
+/**
+ * Remove the key usages, e.g. when the route or the locale change.
+ * Call it outside render functions
+ */
+export const resetKeyUsages = (ctx: SpeakState): void => {
+  collectedUsages.delete(ctx);
+  if (ctx.keyUsages) ctx.keyUsages = {};
+};
+
+/**
+ * Record the asset of each key of translation data: later assets win
+ */
+export const recordAssetKeys = (ctx: SpeakState, lang: string, asset: string, data: Translation): void => {
+  const keySeparator = ctx.config.keySeparator || '.';
+  const keys: { [key: string]: string } = {};
+
+  const flatten = (value: Translation, path: string[]) => {
+    for (const [name, child] of Object.entries(value)) {
+      if (typeof child === 'string') keys[[...path, name].join(keySeparator)] = asset;
+      else if (child !== null && typeof child === 'object') flatten(child, [...path, name]);
+    }
+  };
+  flatten(data, []);
+
+  ctx.keyAssets = { ...ctx.keyAssets, [lang]: { ...ctx.keyAssets?.[lang], ...keys } };
+};
+
+/**
+ * Record the use of a key, and apply the debug mode to its value
+ * @param key The key, with optional default value
+ * @param value The value of the key, if any
+ * @param ctx Speak context
+ * @param langs The language of the translation, followed by its fallback chain
+ * @returns The value to render, or undefined if missing
+ */
+export const debugValue = (
+  key: string,
+  value: string | undefined,
+  ctx: SpeakState,
+  langs: string[]
+): string | undefined => {
+  const { config, translation, keyAssets } = ctx;
+  const [name] = key.split(config.keyValueSeparator || '@@');
+  const lang = langs[0];
+
+  // The first language of the chain with the key provides the value
+  const valueLang = langs.find(x => getString(name, translation[x], config.keySeparator) !== undefined);
+  const source = !value ? 'missing' : valueLang ? 'asset' : 'default';
+  const asset = valueLang ? keyAssets?.[valueLang]?.[name] : undefined;
+
+  recordKeyUsage(ctx, { key: name, lang, source, asset });
+
+  switch (config.debug) {
+    case 'keys':
+      return name;
+    case 'decorate': {
+      if (!value) return value;
+      const label = source === 'default' ? 'default' : asset;
+      return label ? `${value} [${name} | ${label}]` : `${value} [${name}]`;
+    }
+    default:
+      return value;
+  }
+};
+
+/**
+ * Get the keys used by a Speak context in debug mode, in order of occurrence:
+ * those of the server render, and those collected since
+ */
+export const getKeyUsages = (ctx: SpeakState): KeyUsage[] =>
+  Object.values({ ...ctx.keyUsages, ...collectedUsages.get(ctx) });
+
+/**
+ * Create the report of the keys used by a Speak context in debug mode
+ * @param ctx Speak context
+ * @param data Translation data of the supported locales, to find the missing keys
+ * @returns The report
+ */
+export const createInspectorReport = (ctx: SpeakState, data: Translation): InspectorReport => {
+  const { config } = ctx;
+
+  const keys = getKeyUsages(ctx);
+  const names = [...new Set(keys.map(x => x.key))];
+  const defaults = [...new Set(keys.filter(x => x.source === 'default').map(x => x.key))];
+
+  const missing: { [lang: string]: string[] } = {};
+  for (const { lang } of config.supportedLocales) {
+    // The pseudo-locale has no assets
+    if (isPseudoLang(lang, config)) continue;
+
+    missing[lang] = names.filter(key => getString(key, data[lang], config.keySeparator) === undefined);
+  }
+
+  return { keys, defaults, missing };
+};
+
+const getString = (key: string, data: Translation | undefined, keySeparator = '.'): string | undefined => {
+  const value = key.split(keySeparator).reduce((acc, cur) =>
+    (acc && acc[cur] !== undefined) ?
+      acc[cur] :
+      undefined, data);
+  return typeof value === 'string' ? value : undefined;
+};
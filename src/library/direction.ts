@@ -0,0 +1,29 @@
+import type { SpeakLocale } from './types';
+
+/**
+ * ISO 15924 codes of right-to-left scripts
+ */
+const rtlScripts = ['adlm', 'arab', 'hebr', 'mand', 'nkoo', 'rohg', 'samr', 'syrc', 'thaa', 'yezi'];
+
+/**
+ * ISO 639 codes of languages written right-to-left by default
+ */
+const rtlLanguages = ['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'iw', 'ks', 'ps', 'sd', 'syr', 'ug', 'ur', 'yi'];
+
+/**
+ * Get the text direction of a locale: if not set, it is derived from the script or the language
+ * @param locale Speak locale
+ * @returns 'ltr' or 'rtl'
+ */
+export const getDirection = (locale: Partial<SpeakLocale>): 'ltr' | 'rtl' => {
+  if (locale.dir) return locale.dir;
+  if (!locale.lang) return 'ltr';
+
+  const [language, ...subtags] = locale.lang.toLowerCase().split('-');
+
+  // Script has precedence over language, e.g. 'pa-Arab' or 'az-Latn'
+  const script = subtags.find(subtag => subtag.length === 4 && /^[a-z]+$/.test(subtag));
+  if (script) return rtlScripts.includes(script) ? 'rtl' : 'ltr';
+
+  return rtlLanguages.includes(language) ? 'rtl' : 'ltr';
+};
@@ -0,0 +1,27 @@
+import type { SpeakLocale } from './types';
+import { useSpeakLocale } from './use-functions';
+import { getFormatter } from './cache';
+
+/**
+ * Return the translated name of a language, region, script or currency
+ * @param code The code to translate, e.g. 'it-IT', 'IT', 'Latn' or 'EUR'
+ * @param options Intl DisplayNamesOptions object. Default type is 'language'
+ * @param locale Optional Speak locale to be provided outside the component$
+ * @param lang Optional language if different from the current one
+ * @returns The display name, or the code if not available
+ */
+export const displayName = (
+  code: string,
+  options?: Partial<Intl.DisplayNamesOptions>,
+  locale?: SpeakLocale,
+  lang?: string
+): string => {
+  locale = locale ?? useSpeakLocale();
+
+  lang = lang ?? locale.extension ?? locale.lang;
+
+  const resolvedOptions: Intl.DisplayNamesOptions = { ...options, type: options?.type ?? 'language' };
+
+  return getFormatter('DisplayNames', lang, resolvedOptions, () => new Intl.DisplayNames(lang, resolvedOptions))
+    .of(code) ?? code;
+};
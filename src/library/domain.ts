@@ -0,0 +1,13 @@
+import type { SpeakConfig } from './types';
+
+/**
+ * Return the language of a hostname in the domains of Speak config
+ * @param hostname The hostname, e.g. 'example.it'
+ * @param config Speak config
+ * @returns The language or undefined
+ */
+export const getDomainLang = (hostname: string, config: SpeakConfig): string | undefined => {
+  hostname = hostname.toLowerCase();
+  return Object.entries(config.domains ?? {})
+    .find(([, domain]) => domain.hostnames.some(value => value.toLowerCase() === hostname))?.[0];
+};
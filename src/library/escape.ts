@@ -0,0 +1,49 @@
+import type { SpeakState } from './types';
+import { invokeQrl } from './core';
+
+const trustedParam = Symbol('trusted');
+
+/**
+ * Param that is never escaped
+ */
+export interface TrustedParam {
+  toString: () => string;
+}
+
+/**
+ * Mark a param as trusted: it is inserted as it is, whatever the escape policy
+ * @param value The value of the param
+ */
+export const trusted = (value: any): TrustedParam => {
+  const param = { toString: () => `${value}` };
+  Object.defineProperty(param, trustedParam, { value: true });
+  return param;
+};
+
+export const isTrusted = (value: any): value is TrustedParam => !!value?.[trustedParam];
+
+/**
+ * Escape HTML special characters
+ */
+export const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+/**
+ * Escape a param according to the escape policy of the config
+ * @param value The value of the param
+ * @param ctx Optional Speak context: without it, the param is not escaped
+ * @returns The escaped param
+ */
+export const escapeParam = (value: any, ctx?: SpeakState): string => {
+  const escape = ctx?.config.escape ?? 'none';
+
+  if (escape === 'none' || isTrusted(value)) return `${value}`;
+  if (escape === 'html') return escapeHtml(`${value}`);
+
+  // Custom function not resolved yet: fallback to html
+  return invokeQrl(escape, `${value}`) ?? escapeHtml(`${value}`);
+};
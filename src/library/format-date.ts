@@ -1,6 +1,7 @@
 
 import type { SpeakLocale } from './types';
 import { useSpeakLocale } from './use-functions';
+import { getFormatter } from './cache';
 
 /**
  * Format a date
@@ -28,5 +29,5 @@ export const formatDate = (
   options = { ...options };
   if (timeZone) options.timeZone = timeZone;
 
-  return new Intl.DateTimeFormat(lang, options).format(value);
+  return getFormatter('DateTimeFormat', lang, options, () => new Intl.DateTimeFormat(lang, options)).format(value);
 };
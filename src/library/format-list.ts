@@ -0,0 +1,24 @@
+import type { SpeakLocale } from './types';
+import { useSpeakLocale } from './use-functions';
+import { getFormatter } from './cache';
+
+/**
+ * Format a list
+ * @param value An array of strings
+ * @param options Intl ListFormatOptions object
+ * @param locale Optional Speak locale to be provided outside the component$
+ * @param lang Optional language if different from the current one
+ * @returns The formatted list
+ */
+export const formatList = (
+  value: string[],
+  options?: Intl.ListFormatOptions,
+  locale?: SpeakLocale,
+  lang?: string
+): string => {
+  locale = locale ?? useSpeakLocale();
+
+  lang = lang ?? locale.extension ?? locale.lang;
+
+  return getFormatter('ListFormat', lang, options, () => new Intl.ListFormat(lang, options)).format(value);
+};
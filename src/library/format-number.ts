@@ -1,5 +1,6 @@
 import type { SpeakLocale } from './types';
 import { useSpeakLocale } from './use-functions';
+import { getFormatter } from './cache';
 
 /**
  * Format a number
@@ -27,5 +28,5 @@ export const formatNumber = (
   options = { ...options };
   if (currency) options.currency = currency;
 
-  return new Intl.NumberFormat(lang, options).format(value);
+  return getFormatter('NumberFormat', lang, options, () => new Intl.NumberFormat(lang, options)).format(value);
 };
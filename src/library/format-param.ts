@@ -0,0 +1,53 @@
+import type { FormatterFn, SpeakLocale } from './types';
+import { formatNumber } from './format-number';
+import { formatDate } from './format-date';
+import { relativeTime } from './relative-time';
+import { getDateStyle, getNumberOptions } from './message-format';
+import { invokeQrl } from './core';
+
+/**
+ * Format a param of a placeholder like '{{ value, format:arg }}'.
+ * Built-in formats: 'number[:integer|percent]', 'currency[:code]', 'unit:name', 'date[:style]', 'time[:style]',
+ * and 'relative[:unit]'
+ * @param value The value of the param
+ * @param format The name of the format
+ * @param arg Optional argument of the format
+ * @param locale Speak locale
+ * @param lang Optional language if different from the current one
+ * @param formatters Optional custom formatters
+ * @returns The formatted value, or undefined if the format is unknown or the value cannot be formatted
+ */
+export const formatParam = (
+  value: any,
+  format: string,
+  arg: string | undefined,
+  locale: SpeakLocale,
+  lang?: string,
+  formatters?: { [name: string]: FormatterFn }
+): string | undefined => {
+  // Values that cannot be formatted, e.g. a currency without code or an invalid date, are not formatted
+  try {
+    const formatter = formatters?.[format];
+    if (formatter) return invokeQrl(formatter, value, arg, locale, lang ?? locale.extension ?? locale.lang);
+
+    switch (format) {
+      case 'number':
+        return formatNumber(value, getNumberOptions(arg), locale, lang);
+      case 'currency':
+        return formatNumber(value, { style: 'currency' }, locale, lang, arg);
+      case 'unit':
+        if (!arg) return undefined;
+        return formatNumber(value, { style: 'unit', unit: locale.units?.[arg] ?? arg }, locale, lang);
+      case 'date':
+        return formatDate(value, { dateStyle: getDateStyle(arg) }, locale, lang);
+      case 'time':
+        return formatDate(value, { timeStyle: getDateStyle(arg) }, locale, lang);
+      case 'relative':
+        return relativeTime(value, <Intl.RelativeTimeFormatUnit>(arg ?? 'day'), {}, locale, lang);
+      default:
+        return undefined;
+    }
+  } catch (error) {
+    return undefined;
+  }
+};
@@ -1,4 +1,6 @@
-import { useSpeakLocale } from './use-functions';
+import { useSpeakContext, useSpeakLocale } from './use-functions';
+import { getFormatter } from './cache';
+import { escapeParam } from './escape';
 
 export const $lang = (lang: string): boolean => useSpeakLocale().lang === lang;
 
@@ -7,4 +9,7 @@ export const $rule = (
   value: number | string,
   rule: string,
   options?: Intl.PluralRulesOptions,
-): boolean => new Intl.PluralRules(lang, options).select(+value) === rule;
+): boolean => getFormatter('PluralRules', lang, options, () => new Intl.PluralRules(lang, options))
+  .select(+value) === rule;
+
+export const $escape = (value: any): string => escapeParam(value, useSpeakContext());
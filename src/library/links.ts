@@ -0,0 +1,38 @@
+import type { Translation } from './types';
+
+/**
+ * Get the value of a nested key in translation data
+ */
+export const getKeyValue = (key: string, data: Translation | undefined, keySeparator: string): any => {
+  return key.split(keySeparator).reduce((acc, cur) =>
+    (acc && acc[cur] !== undefined) ?
+      acc[cur] :
+      undefined, data);
+};
+
+/**
+ * Resolve linked messages, e.g. '@:app.brand' or '@:(app.brand)', against the same translation data.
+ * Broken and circular links are left as they are
+ */
+export const resolveLinks = (value: string, data: Translation, keySeparator = '.', path: string[] = []): string => {
+  if (!value.includes('@:')) return value;
+
+  return value.replace(getLinkRegex(keySeparator), (link: string, enclosedKey?: string, key?: string) => {
+    key = enclosedKey ?? key;
+    if (!key || path.includes(key)) return link;
+
+    const linkedValue = getKeyValue(key, data, keySeparator);
+
+    return typeof linkedValue === 'string' ?
+      resolveLinks(linkedValue, data, keySeparator, [...path, key]) :
+      link;
+  });
+};
+
+/**
+ * A key is made of words joined by the key separator, so trailing punctuation is not part of the link
+ */
+export const getLinkRegex = (keySeparator: string): RegExp => {
+  const separator = keySeparator.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`@:(?:\\(([^()\\s]+)\\)|([\\w-]+(?:${separator}[\\w-]+)*))`, 'g');
+};
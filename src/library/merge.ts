@@ -0,0 +1,19 @@
+import type { Translation } from './types';
+
+/**
+ * Deep merge of translation data: source values win.
+ * Source objects are copied, so cached data is never mutated
+ */
+export const deepMerge = (target: Translation, source: Translation): Translation => {
+  for (const key of Object.keys(source)) {
+    if (isObject(source[key])) {
+      if (!isObject(target[key])) target[key] = {};
+      deepMerge(target[key], source[key]);
+    } else {
+      target[key] = source[key];
+    }
+  }
+  return target;
+};
+
+const isObject = (value: any): boolean => value !== null && typeof value === 'object' && !Array.isArray(value);
@@ -0,0 +1,259 @@
+import type { SpeakLocale } from './types';
+import { formatNumber } from './format-number';
+import { formatDate } from './format-date';
+import { getFormatter } from './cache';
+
+/**
+ * Node of a parsed ICU message
+ */
+type MessageNode =
+  | { type: 'text'; value: string }
+  | { type: 'pound' }
+  | { type: 'argument'; name: string; source: string }
+  | { type: 'number' | 'date' | 'time'; name: string; style?: string; source: string }
+  | {
+    type: 'plural' | 'selectordinal'; name: string; offset: number; options: Record<string, MessageNode[]>; source: string
+  }
+  | { type: 'select'; name: string; options: Record<string, MessageNode[]>; source: string };
+
+/**
+ * Parse an ICU message
+ * Supported arguments: simple, number, date, time, plural, selectordinal and select
+ * Apostrophes work as in ICU: '' is a literal apostrophe, and '{' quotes special characters
+ */
+export const parseMessage = (message: string): MessageNode[] => {
+  let i = 0;
+
+  const error = (reason: string) => new Error(`Invalid ICU message at ${i}: ${reason}`);
+
+  const skipSpaces = () => {
+    while (i < message.length && /\s/.test(message[i])) i++;
+  };
+
+  const readWord = (): string => {
+    skipSpaces();
+    const start = i;
+    while (i < message.length && !/[\s,{}]/.test(message[i])) i++;
+    return message.substring(start, i);
+  };
+
+  const expect = (ch: string) => {
+    skipSpaces();
+    if (message[i] !== ch) throw error(`expected "${ch}"`);
+    i++;
+  };
+
+  const parseText = (inPlural: boolean): string => {
+    let text = '';
+    while (i < message.length) {
+      const ch = message[i];
+      if (ch === '{' || ch === '}' || (inPlural && ch === '#')) break;
+      if (ch === '\'') {
+        const next = message[i + 1];
+        if (next === '\'') {
+          // Escaped apostrophe
+          text += '\'';
+          i += 2;
+          continue;
+        }
+        if (next === '{' || next === '}' || (inPlural && next === '#')) {
+          // Quoted literal
+          const end = message.indexOf('\'', i + 1);
+          text += message.substring(i + 1, end < 0 ? message.length : end);
+          i = end < 0 ? message.length : end + 1;
+          continue;
+        }
+      }
+      text += ch;
+      i++;
+    }
+    return text;
+  };
+
+  const parseOptions = (inPlural: boolean): Record<string, MessageNode[]> => {
+    const options: Record<string, MessageNode[]> = {};
+    skipSpaces();
+    while (i < message.length && message[i] !== '}') {
+      const selector = readWord();
+      if (!selector) throw error('missing selector');
+      expect('{');
+      options[selector] = parseNodes(inPlural);
+      expect('}');
+      skipSpaces();
+    }
+    if (!options['other']) throw error('missing "other" option');
+    return options;
+  };
+
+  const parseArgument = (start: number, inPlural: boolean): MessageNode => {
+    const name = readWord();
+    if (!name) throw error('missing argument name');
+    skipSpaces();
+
+    if (message[i] === '}') {
+      i++;
+      return { type: 'argument', name, source: message.substring(start, i) };
+    }
+
+    expect(',');
+    const type = readWord();
+    skipSpaces();
+
+    switch (type) {
+      case 'number':
+      case 'date':
+      case 'time': {
+        let style: string | undefined;
+        if (message[i] === ',') {
+          i++;
+          const end = message.indexOf('}', i);
+          if (end < 0) throw error('unclosed argument');
+          style = message.substring(i, end).trim();
+          i = end;
+        }
+        expect('}');
+        return { type, name, style, source: message.substring(start, i) };
+      }
+      case 'plural':
+      case 'selectordinal': {
+        expect(',');
+        skipSpaces();
+        let offset = 0;
+        const offsetMatch = /^offset:\s*(\d+)/.exec(message.substring(i));
+        if (offsetMatch) {
+          offset = +offsetMatch[1];
+          i += offsetMatch[0].length;
+        }
+        const options = parseOptions(true);
+        expect('}');
+        return { type, name, offset, options, source: message.substring(start, i) };
+      }
+      case 'select': {
+        expect(',');
+        // Keep # of the enclosing plural
+        const options = parseOptions(inPlural);
+        expect('}');
+        return { type, name, options, source: message.substring(start, i) };
+      }
+      default:
+        throw error(`unknown argument type "${type}"`);
+    }
+  };
+
+  const parseNodes = (inPlural: boolean): MessageNode[] => {
+    const nodes: MessageNode[] = [];
+    while (i < message.length && message[i] !== '}') {
+      const ch = message[i];
+      if (ch === '{') {
+        const start = i++;
+        nodes.push(parseArgument(start, inPlural));
+      } else if (inPlural && ch === '#') {
+        nodes.push({ type: 'pound' });
+        i++;
+      } else {
+        nodes.push({ type: 'text', value: parseText(inPlural) });
+      }
+    }
+    return nodes;
+  };
+
+  const nodes = parseNodes(false);
+  if (i < message.length) throw error('unexpected "}"');
+
+  return nodes;
+};
+
+/**
+ * Format an ICU message
+ * @param message The ICU message
+ * @param params Optional parameters contained in the message
+ * @param locale Speak locale
+ * @param lang Optional language if different from the current one
+ * @param escape Optional function to escape simple arguments
+ * @returns The formatted message, or the message as is if it is not valid.
+ * Values that cannot be formatted are inserted as simple arguments
+ */
+export const formatMessage = (
+  message: string,
+  params: any,
+  locale: SpeakLocale,
+  lang?: string,
+  escape: (value: any) => string = value => `${value}`
+): string => {
+  const resolvedLang = lang ?? locale.extension ?? locale.lang;
+
+  let nodes: MessageNode[];
+  try {
+    nodes = parseMessage(message);
+  } catch (error) {
+    return message;
+  }
+
+  // Values that cannot be formatted, e.g. a currency without code or an invalid date, are kept as they are
+  const formatValue = (value: any, formatFn: () => string): string => {
+    try {
+      return formatFn();
+    } catch (error) {
+      return escape(value);
+    }
+  };
+
+  const format = (nodes: MessageNode[], pound?: number): string => nodes.map(node => {
+    if (node.type === 'text') return node.value;
+    if (node.type === 'pound') return pound !== undefined ? formatNumber(pound, {}, locale, resolvedLang) : '#';
+
+    const value = params?.[node.name];
+    if (value === undefined) return node.source;
+
+    switch (node.type) {
+      case 'argument':
+        return escape(value);
+      case 'number':
+        return formatValue(value, () => formatNumber(value, getNumberOptions(node.style), locale, resolvedLang));
+      case 'date':
+        return formatValue(value, () =>
+          formatDate(value, { dateStyle: getDateStyle(node.style) }, locale, resolvedLang));
+      case 'time':
+        return formatValue(value, () =>
+          formatDate(value, { timeStyle: getDateStyle(node.style) }, locale, resolvedLang));
+      case 'plural':
+      case 'selectordinal': {
+        const exact = node.options[`=${+value}`];
+        if (exact) return format(exact, +value - node.offset);
+
+        const type = node.type === 'plural' ? 'cardinal' : 'ordinal';
+        const rule = getFormatter('PluralRules', resolvedLang, { type }, () =>
+          new Intl.PluralRules(resolvedLang, { type })).select(+value - node.offset);
+        return format(node.options[rule] ?? node.options['other'], +value - node.offset);
+      }
+      case 'select':
+        return format(node.options[`${value}`] ?? node.options['other'], pound);
+    }
+  }).join('');
+
+  return format(nodes);
+};
+
+export const getNumberOptions = (style?: string): Intl.NumberFormatOptions => {
+  switch (style) {
+    case 'integer':
+      return { maximumFractionDigits: 0 };
+    case 'percent':
+      return { style: 'percent' };
+    case 'currency':
+      return { style: 'currency' };
+    default:
+      return {};
+  }
+};
+
+export const getDateStyle = (style?: string): Intl.DateTimeFormatOptions['dateStyle'] => {
+  switch (style) {
+    case 'short':
+    case 'long':
+    case 'full':
+      return style;
+    default:
+      return 'medium';
+  }
+};
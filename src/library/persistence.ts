@@ -0,0 +1,67 @@
+import type { SpeakConfig } from './types';
+
+/**
+ * Read a cookie of the document
+ */
+const readCookie = (name: string): string | undefined => {
+  const cookie = document.cookie.split(';').map(value => value.trim()).find(value => value.startsWith(`${name}=`));
+  return cookie ? decodeURIComponent(cookie.substring(name.length + 1)) : undefined;
+};
+
+/**
+ * Return the persisted language on client: first from localStorage, then from the cookie
+ * @param config Speak config
+ * @returns The language or undefined if persistence is disabled or nothing has been persisted
+ */
+export const getPersistedLang = (config: SpeakConfig): string | undefined => {
+  const { persistence } = config;
+  // E.g. server or testing environments
+  if (!persistence || typeof document === 'undefined') return undefined;
+
+  const storageKey = persistence.storageKey ?? 'locale';
+  const cookie = persistence.cookie ?? 'locale';
+
+  let lang: string | null | undefined;
+  if (storageKey) {
+    try {
+      lang = localStorage.getItem(storageKey);
+    } catch {
+      // Storage not available, e.g. privacy settings
+    }
+  }
+  if (!lang && cookie) lang = readCookie(cookie);
+
+  return lang || undefined;
+};
+
+/**
+ * Persist the language on client in the cookie and in localStorage, and post it to the other tabs
+ * @param lang The language to persist
+ * @param config Speak config
+ */
+export const persistLang = (lang: string, config: SpeakConfig): void => {
+  const { persistence } = config;
+  // E.g. server or testing environments
+  if (!persistence || typeof document === 'undefined') return;
+
+  const cookie = persistence.cookie ?? 'locale';
+  const maxAge = persistence.maxAge ?? 60 * 60 * 24 * 365;
+  const storageKey = persistence.storageKey ?? 'locale';
+  const channel = persistence.channel ?? 'qwik-speak';
+
+  if (cookie) {
+    document.cookie = `${cookie}=${encodeURIComponent(lang)};path=/;max-age=${maxAge};SameSite=Lax`;
+  }
+  if (storageKey) {
+    try {
+      localStorage.setItem(storageKey, lang);
+    } catch {
+      // Storage not available, e.g. privacy settings
+    }
+  }
+  if (channel && typeof BroadcastChannel !== 'undefined') {
+    const broadcastChannel = new BroadcastChannel(channel);
+    broadcastChannel.postMessage({ lang });
+    broadcastChannel.close();
+  }
+};
@@ -1,6 +1,9 @@
-import type { SpeakState } from './types';
+import type { PluralPrefix, SpeakState } from './types';
 import { useSpeakContext } from './use-functions';
-import { $translate } from './translate';
+import { translate } from './translate';
+import { getFallbackLangs, getValue } from './core';
+import { getFormatter } from './cache';
+import { getPseudoSourceLang, isPseudoLang } from './pseudo-locale';
 
 /**
  * Get the plural by a number. 
@@ -14,20 +17,37 @@ import { $translate } from './translate';
  */
 export const $plural = (
   value: number | string,
-  prefix?: string,
+  prefix?: PluralPrefix,
   options?: Intl.PluralRulesOptions,
   ctx?: SpeakState,
   lang?: string
 ): string => {
   ctx = ctx ?? useSpeakContext();
-  const { locale, config } = ctx;
+  const { locale, translation, config } = ctx;
 
   lang = lang ?? locale.lang;
 
   value = +value;
 
-  const rule = new Intl.PluralRules(lang, options).select(value);
-  const key = prefix ? `${prefix}${config.keySeparator}${rule}` : rule;
+  const getKey = (lang: string): string => {
+    const rule = getFormatter('PluralRules', lang, options, () => new Intl.PluralRules(lang, options))
+      .select(+value);
+    return prefix ? `${prefix}${config.keySeparator}${rule}` : rule;
+  };
 
-  return $translate(key, { value }, ctx, lang);
+  // The pseudo-locale follows the plural rules of its source language
+  const pseudo = isPseudoLang(lang, config);
+  const key = getKey(pseudo ? getPseudoSourceLang(config) : lang);
+
+  // Fallback chain: each language has its own plural rules
+  if (!pseudo && getValue(key, translation[lang], undefined, config.keySeparator) === undefined) {
+    for (const fallbackLang of getFallbackLangs(lang, config)) {
+      const fallbackKey = getKey(fallbackLang);
+      if (getValue(fallbackKey, translation[fallbackLang], undefined, config.keySeparator) !== undefined) {
+        return translate(fallbackKey, { value }, ctx, fallbackLang);
+      }
+    }
+  }
+
+  return translate(key, { value }, ctx, lang);
 };
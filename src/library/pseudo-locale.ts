@@ -0,0 +1,77 @@
+import type { PseudoLocaleOptions, SpeakConfig } from './types';
+
+const accentedChars: { [char: string]: string } = {
+  a: 'å', b: 'ƀ', c: 'ç', d: 'ð', e: 'é', f: 'ƒ', g: 'ĝ', h: 'ĥ', i: 'î', j: 'ĵ', k: 'ķ', l: 'ļ', m: 'ɱ',
+  n: 'ñ', o: 'ö', p: 'þ', q: 'ǫ', r: 'ŕ', s: 'š', t: 'ţ', u: 'û', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ý', z: 'ž',
+  A: 'Å', B: 'Ɓ', C: 'Ç', D: 'Ð', E: 'É', F: 'Ƒ', G: 'Ĝ', H: 'Ĥ', I: 'Î', J: 'Ĵ', K: 'Ķ', L: 'Ļ', M: 'Ṁ',
+  N: 'Ñ', O: 'Ö', P: 'Þ', Q: 'Ǫ', R: 'Ŕ', S: 'Š', T: 'Ţ', U: 'Û', V: 'Ṽ', W: 'Ŵ', X: 'Ẋ', Y: 'Ý', Z: 'Ž'
+};
+
+/**
+ * Whether a language is the pseudo-locale of Speak config
+ */
+export const isPseudoLang = (lang: string, config: SpeakConfig): boolean => {
+  return !!config.pseudoLocale && config.pseudoLocale.lang === lang;
+};
+
+/**
+ * Get the language whose values are pseudo-localized
+ */
+export const getPseudoSourceLang = (config: SpeakConfig): string => {
+  return config.pseudoLocale?.sourceLang ?? config.defaultLocale.lang;
+};
+
+/**
+ * Pseudo-localize a value: letters are accented, the value is expanded and wrapped in brackets.
+ * '{{param}}' placeholders, tags and ICU arguments are kept as they are
+ * @param value The value to pseudo-localize
+ * @param options Pseudo-locale options
+ * @param messageFormat Syntax of the value. Default is 'default'
+ * @returns The pseudo-localized value
+ */
+export const pseudoLocalize = (
+  value: string,
+  options: Pick<PseudoLocaleOptions, 'accents' | 'expansion' | 'brackets'>,
+  messageFormat: 'default' | 'icu' = 'default'
+): string => {
+  const { accents = true, expansion = 0.3, brackets = ['[', ']'] } = options;
+
+  const placeholderRegex = /{{[^{}]*}}/y;
+  const tagRegex = /<\/?[A-Za-z0-9-]+[^<>]*>/y;
+
+  const matchAt = (regex: RegExp, index: number): string | undefined => {
+    regex.lastIndex = index;
+    return regex.exec(value)?.[0];
+  };
+
+  let result = '';
+  let length = 0;
+  // Depth of ICU braces: the text of the message is at even depths
+  let depth = 0;
+
+  let i = 0;
+  while (i < value.length) {
+    const token = (messageFormat === 'default' ? matchAt(placeholderRegex, i) : undefined) ?? matchAt(tagRegex, i);
+    if (token) {
+      result += token;
+      i += token.length;
+      continue;
+    }
+
+    const char = value[i++];
+
+    if (messageFormat === 'icu') {
+      if (char === '{') depth++;
+      if (char === '}') depth--;
+      if (depth % 2 === 1 || char === '{' || char === '}' || char === '#') {
+        result += char;
+        continue;
+      }
+    }
+
+    result += accents ? accentedChars[char] ?? char : char;
+    if (char.trim()) length++;
+  }
+
+  return brackets[0] + result + '~'.repeat(Math.ceil(length * expansion)) + brackets[1];
+};
@@ -1,9 +1,22 @@
-import { $, component$, Slot, useContextProvider, useServerData, useStore, useTask$ } from '@builder.io/qwik';
+import {
+  $,
+  component$,
+  Slot,
+  useClientEffect$,
+  useContextProvider,
+  useServerData,
+  useStore,
+  useTask$
+} from '@builder.io/qwik';
 import { isServer } from '@builder.io/qwik/build';
 
-import type { InternalSpeakState, SpeakConfig, SpeakLocale, SpeakState, TranslationFn } from './types';
+import type { InternalSpeakState, SpeakConfig, SpeakDebug, SpeakLocale, SpeakState, TranslationFn } from './types';
 import { SpeakContext } from './context';
-import { loadTranslations } from './core';
+import { getLangs, loadTranslations, resolveFunctions } from './core';
+import { matchLocale } from './resolve-locale';
+import { getDirection } from './direction';
+import { syncPersistedLocale } from './change-locale';
+import { getDomainLang } from './domain';
 
 export interface QwikSpeakProps {
   /**
@@ -22,6 +35,10 @@ export interface QwikSpeakProps {
    * Optional additional languages to preload data for (multilingual)
    */
   langs?: string[];
+  /**
+   * Optional debug mode, e.g. in development. It overrides the debug mode of the config
+   */
+  debug?: SpeakDebug;
 }
 
 /**
@@ -37,26 +54,43 @@ export const QwikSpeakProvider = component$((props: QwikSpeakProps) => {
 
   // Resolve functions
   const resolvedTranslationFn: TranslationFn = {
-    loadTranslation$: props.translationFn?.loadTranslation$ ?? $(() => null)
+    loadTranslation$: props.translationFn?.loadTranslation$ ?? $(() => null),
+    handleMissingTranslation$: props.translationFn?.handleMissingTranslation$ ?? $((key: string) => key)
   };
 
   // Resolve locale
+  const domainLang = url ? getDomainLang(url.hostname, props.config) : undefined;
   const resolvedLocale = props.locale ??
-    props.config.supportedLocales.find(value => value.lang === lang) ??
+    (lang ? matchLocale(lang, props.config.supportedLocales) : undefined) ??
+    (domainLang ? matchLocale(domainLang, props.config.supportedLocales) : undefined) ??
     props.config.defaultLocale;
 
   // Set initial state
   const state = useStore<InternalSpeakState>({
-    locale: Object.assign({}, resolvedLocale),
-    translation: Object.fromEntries(props.config.supportedLocales.map(value => [value.lang, {}])),
+    locale: Object.assign({}, resolvedLocale, { dir: getDirection(resolvedLocale) }),
+    translation: Object.fromEntries(getLangs(props.config).map(value => [value, {}])),
     config: {
       defaultLocale: props.config.defaultLocale,
       supportedLocales: props.config.supportedLocales,
       assets: props.config.assets,
       keySeparator: props.config.keySeparator || '.',
-      keyValueSeparator: props.config.keyValueSeparator || '@@'
+      keyValueSeparator: props.config.keyValueSeparator || '@@',
+      messageFormat: props.config.messageFormat || 'default',
+      fallbackLangs: props.config.fallbackLangs,
+      formatters: props.config.formatters,
+      translationCache: props.config.translationCache,
+      retry: props.config.retry,
+      escape: props.config.escape || 'none',
+      routes: props.config.routes,
+      persistence: props.config.persistence,
+      domains: props.config.domains,
+      pseudoLocale: props.config.pseudoLocale,
+      debug: props.debug ?? props.config.debug
     },
-    translationFn: resolvedTranslationFn
+    translationFn: resolvedTranslationFn,
+    status: 'loading',
+    errors: [],
+    scopes: {}
   }, { recursive: true });
   const ctx = state as SpeakState;
   const { locale, translation, config, translationFn } = ctx;
@@ -71,6 +105,9 @@ export const QwikSpeakProvider = component$((props: QwikSpeakProps) => {
     // Load translations
     await loadTranslations(ctx, url?.origin, props.langs);
 
+    // Resolve functions to call them synchronously
+    await resolveFunctions(ctx);
+
     // Prevent Qwik from creating subscriptions
     if (isServer) {
       // Shallow freeze: only applies to the immediate properties of object itself
@@ -80,5 +117,25 @@ export const QwikSpeakProvider = component$((props: QwikSpeakProps) => {
     }
   });
 
+  // On client, the task above runs again only when lang changes: resolve functions on resume
+  useClientEffect$(() => resolveFunctions(ctx), { eagerness: 'load' });
+
+  // Keep lang and dir of the document in sync when locale changes on client
+  useClientEffect$(({ track }) => {
+    track(() => locale.lang);
+
+    // E.g. testing environments
+    if (typeof document === 'undefined') return;
+
+    document.documentElement.lang = locale.lang;
+    document.documentElement.dir = getDirection(locale);
+  });
+
+  // Restore the persisted locale and sync it with the other tabs
+  useClientEffect$(({ cleanup }) => {
+    const stop = syncPersistedLocale(ctx);
+    if (stop) cleanup(stop);
+  });
+
   return <Slot />;
 });
@@ -1,5 +1,6 @@
 import type { SpeakLocale } from './types';
 import { useSpeakLocale } from './use-functions';
+import { getFormatter } from './cache';
 
 /**
  * Format a relative time
@@ -22,5 +23,6 @@ export const relativeTime = (
 
   value = +value;
 
-  return new Intl.RelativeTimeFormat(lang, options).format(value, unit);
+  return getFormatter('RelativeTimeFormat', lang, options, () => new Intl.RelativeTimeFormat(lang, options))
+    .format(value, unit);
 };
@@ -0,0 +1,52 @@
+import type { SpeakLocale } from './types';
+
+/**
+ * Find the supported locale matching a language tag.
+ * Partial tags are matched by language: 'it' or 'it-CH' resolve to 'it-IT'
+ * @param tag language[-script][-region]
+ * @param supportedLocales Supported locales
+ * @returns The supported locale or undefined
+ */
+export const matchLocale = (tag: string, supportedLocales: SpeakLocale[]): SpeakLocale | undefined => {
+  if (!tag) return undefined;
+
+  tag = tag.trim().toLowerCase();
+
+  const exact = supportedLocales.find(value => value.lang.toLowerCase() === tag);
+  if (exact) return exact;
+
+  const language = tag.split('-')[0];
+  return supportedLocales.find(value => value.lang.toLowerCase().split('-')[0] === language);
+};
+
+/**
+ * Parse an Accept-Language header
+ * @param header e.g. 'it-CH, it;q=0.9, en;q=0.8, *;q=0.5'
+ * @returns The language tags sorted by quality
+ */
+export const parseAcceptLanguage = (header: string): string[] => {
+  return header.split(',')
+    .map((value, index) => {
+      const [tag, ...params] = value.trim().split(';');
+      const q = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      return { tag: tag.trim(), quality: q ? +q.substring(2) : 1, index };
+    })
+    .filter(value => value.tag && value.tag !== '*' && value.quality > 0)
+    // Stable sort by quality
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(value => value.tag);
+};
+
+/**
+ * Negotiate the locale against an Accept-Language header
+ * @param header Accept-Language header
+ * @param supportedLocales Supported locales
+ * @returns The supported locale or undefined
+ */
+export const negotiateLocale = (header: string, supportedLocales: SpeakLocale[]): SpeakLocale | undefined => {
+  for (const tag of parseAcceptLanguage(header)) {
+    const locale = matchLocale(tag, supportedLocales);
+    if (locale) return locale;
+  }
+  return undefined;
+};
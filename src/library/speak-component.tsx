@@ -1,4 +1,4 @@
-import { component$, Slot, useServerData, useTask$ } from '@builder.io/qwik';
+import { component$, Slot, useClientEffect$, useId, useServerData, useTask$ } from '@builder.io/qwik';
 import { isServer } from '@builder.io/qwik/build';
 
 import { useSpeakContext } from './use-functions';
@@ -26,6 +26,16 @@ export const Speak = component$((props: SpeakProps) => {
   const urlEnv = useServerData<string>('url');
   const url = isServer && urlEnv ? new URL(urlEnv) : null;
 
+  // Register the scope for changeLocale.
+  // The cleanup of tasks also runs when the server pauses the state: the scope is removed only on client
+  const id = useId();
+  useTask$(() => {
+    ctx.scopes[id] = [...props.assets];
+  });
+  useClientEffect$(({ cleanup }) => {
+    cleanup(() => delete ctx.scopes[id]);
+  }, { eagerness: 'load' });
+
   // Called the first time when the component mounts, and when lang changes
   useTask$(async ({ track }) => {
     track(() => locale.lang);
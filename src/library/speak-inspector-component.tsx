@@ -0,0 +1,112 @@
+import { component$, useClientEffect$, useStore, useTask$ } from '@builder.io/qwik';
+import { isServer } from '@builder.io/qwik/build';
+
+import type { SpeakState } from './types';
+import type { InspectorReport } from './debug';
+import { useSpeakContext } from './use-functions';
+import { getLangs, loadTranslations } from './core';
+import { createInspectorReport, resetKeyUsages, saveKeyUsages } from './debug';
+
+export interface SpeakInspectorProps {
+  /**
+   * Open the overlay. Default is false
+   */
+  open?: boolean;
+  /**
+   * Optional URL of the page, e.g. the href of Qwik City location: the keys are collected again when it changes
+   */
+  url?: string;
+}
+
+/**
+ * Overlay that lists the keys used on the page, the keys resolved from their default value,
+ * and the keys missing in each supported locale.
+ * It renders only in debug mode, and the report is updated on client when the url or the locale change
+ */
+export const SpeakInspector = component$((props: SpeakInspectorProps) => {
+  const ctx = useSpeakContext();
+  const { config, locale } = ctx;
+
+  const report = useStore<InspectorReport>({ keys: [], defaults: [], missing: {} });
+
+  useTask$(({ track, cleanup }) => {
+    track(() => props.url);
+    track(() => locale.lang);
+    if (!config.debug) return;
+
+    // On server, the cleanup runs when the state is paused, before it is serialized
+    if (isServer) cleanup(() => saveKeyUsages(ctx));
+    // On client, the task runs again only when the url or the locale change
+    else resetKeyUsages(ctx);
+  });
+
+  // On client, when the rendering of the page is complete
+  useClientEffect$(async ({ track }) => {
+    track(() => props.url);
+    track(() => locale.lang);
+    if (!config.debug) return;
+
+    // Load the data of the supported locales, without adding it to the context
+    const langs = config.supportedLocales.map(value => value.lang);
+    const assets = [...new Set([...config.assets, ...Object.values(ctx.scopes).flat()])];
+    const dataCtx: SpeakState = {
+      ...ctx,
+      translation: Object.fromEntries(getLangs(config).map(value => [value, {}])),
+      status: 'loading',
+      errors: [],
+      scopes: {}
+    };
+    // E.g. testing environments
+    const origin = typeof location !== 'undefined' ? location.origin : undefined;
+    await loadTranslations(dataCtx, origin, langs, assets);
+
+    Object.assign(report, createInspectorReport(ctx, dataCtx.translation));
+  });
+
+  if (!config.debug) return null;
+
+  const style = {
+    position: 'fixed',
+    right: '1rem',
+    bottom: '1rem',
+    zIndex: '2147483647',
+    maxWidth: '28rem',
+    maxHeight: '60vh',
+    overflow: 'auto',
+    padding: '0.5rem 1rem',
+    background: '#fff',
+    color: '#222',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    font: '12px/1.5 monospace'
+  };
+
+  return (
+    <details class="speak-inspector" open={props.open} style={style}>
+      <summary>Qwik Speak: {report.keys.length} keys</summary>
+
+      <h4>Keys</h4>
+      <ul>
+        {report.keys.map(usage => (
+          <li key={`key-${usage.lang}-${usage.key}`}>
+            {usage.key} <em>{usage.asset ?? usage.source}</em>{usage.lang !== ctx.locale.lang && ` (${usage.lang})`}
+          </li>
+        ))}
+      </ul>
+
+      <h4>Default values: {report.defaults.length}</h4>
+      <ul>
+        {report.defaults.map(key => <li key={`default-${key}`}>{key}</li>)}
+      </ul>
+
+      {Object.entries(report.missing).map(([lang, keys]) => (
+        <div key={`missing-${lang}`}>
+          <h4>Missing in {lang}: {keys.length}</h4>
+          <ul>
+            {keys.map(key => <li key={`missing-${lang}-${key}`}>{key}</li>)}
+          </ul>
+        </div>
+      ))}
+    </details>
+  );
+});
@@ -0,0 +1,105 @@
+import type { FunctionComponent, JSXNode } from '@builder.io/qwik';
+import { Fragment } from '@builder.io/qwik';
+
+export interface TransProps {
+  /**
+   * The translation value, e.g. t('home.text'), containing tags like <b>, <link> or <0>
+   */
+  value: string;
+  /**
+   * Optional components that render the tags, by tag name
+   */
+  components?: { [tag: string]: FunctionComponent<any> };
+  /**
+   * Optional parameters contained in the value, rendered as text
+   */
+  params?: any;
+}
+
+/**
+ * Node of a parsed rich text
+ */
+export type RichTextNode =
+  | { type: 'text'; value: string }
+  | { type: 'param'; name: string; source: string }
+  | { type: 'tag'; name: string; children: RichTextNode[] };
+
+/**
+ * Parse a rich text: tags have no attributes, and can be self-closing, e.g. '<link>Docs</link>' or '<br/>'.
+ * Unmatched tags are kept as text
+ */
+export const parseRichText = (value: string): RichTextNode[] => {
+  const root: RichTextNode[] = [];
+  // Open tags
+  const stack: { name: string; source: string; children: RichTextNode[] }[] = [];
+
+  const current = () => stack.length > 0 ? stack[stack.length - 1].children : root;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const nodes = current();
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') {
+      last.value += text;
+    } else {
+      nodes.push({ type: 'text', value: text });
+    }
+  };
+
+  const regex = /<(\/)?([\w-]+)\s*(\/)?>|{{\s*([^{}\s]*)\s*}}/g;
+  let index = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(value)) !== null) {
+    pushText(value.substring(index, match.index));
+    index = regex.lastIndex;
+
+    const [source, closing, name, selfClosing, param] = match;
+    if (param !== undefined) {
+      current().push({ type: 'param', name: param, source });
+    } else if (selfClosing) {
+      current().push({ type: 'tag', name, children: [] });
+    } else if (!closing) {
+      stack.push({ name, source, children: [] });
+    } else if (stack.length > 0 && stack[stack.length - 1].name === name) {
+      const tag = stack.pop()!;
+      current().push({ type: 'tag', name, children: tag.children });
+    } else {
+      pushText(source);
+    }
+  }
+  pushText(value.substring(index));
+
+  // Unclosed tags
+  while (stack.length > 0) {
+    const tag = stack.pop()!;
+    pushText(tag.source);
+    for (const child of tag.children) {
+      if (child.type === 'text') pushText(child.value); else current().push(child);
+    }
+  }
+
+  return root;
+};
+
+const renderNodes = (nodes: RichTextNode[], props: TransProps): (JSXNode | string)[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text':
+      return node.value;
+    case 'param': {
+      const param = props.params?.[node.name];
+      return param !== undefined ? `${param}` : node.source;
+    }
+    case 'tag': {
+      const Component: FunctionComponent<any> = props.components?.[node.name] ?? Fragment;
+      return <Component key={i}>{renderNodes(node.children, props)}</Component>;
+    }
+  }
+});
+
+/**
+ * Render a translation value containing tags through components, without using innerHTML.
+ * Tags without a component render only their content
+ */
+export const Trans = (props: TransProps): JSXNode => {
+  return <>{renderNodes(parseRichText(props.value), props)}</>;
+};
@@ -1,6 +1,7 @@
-import type { SpeakState } from './types';
+import type { SpeakState, TranslateFn, TranslationKey, TranslationParams } from './types';
 import { useSpeakContext } from './use-functions';
-import { getValue } from './core';
+import { getFallbackLangs, getValue, invokeQrl } from './core';
+import { debugValue } from './debug';
 
 /**
  * Translate a key.
@@ -9,9 +10,14 @@ import { getValue } from './core';
  * @param params Optional parameters contained in the value
  * @param ctx Optional Speak context to be provided outside the component$
  * @param lang Optional language if different from the current one
- * @returns The translation or the key if not found
+ * @returns The translation, or the result of handleMissingTranslation$ if not found
  */
-export function $translate(key: string, params?: any, ctx?: SpeakState, lang?: string): string;
+export function $translate<K extends TranslationKey>(
+  key: K,
+  params?: TranslationParams<K>,
+  ctx?: SpeakState,
+  lang?: string
+): string;
 /**
  * Translate an array of keys.
  * The syntax of the strings is 'key@@[default value]'
@@ -19,19 +25,54 @@ export function $translate(key: string, params?: any, ctx?: SpeakState, lang?: s
  * @param params Optional parameters contained in the values
  * @param ctx Optional Speak context to be provided outside the component$
  * @param lang Optional language if different from the current one
- * @returns The translations or the keys if not found
+ * @returns The translations, or the results of handleMissingTranslation$ if not found
  */
-export function $translate(keys: string[], params?: any, ctx?: SpeakState, lang?: string): string[];
+export function $translate<K extends TranslationKey>(
+  keys: K[],
+  params?: TranslationParams<K>,
+  ctx?: SpeakState,
+  lang?: string
+): string[];
 
 export function $translate(keys: string | string[], params?: any, ctx?: SpeakState, lang?: string): any {
+  return translate(keys, params, ctx, lang);
+}
+
+/**
+ * Untyped $translate
+ */
+export const translate = (keys: string | string[], params?: any, ctx?: SpeakState, lang?: string): any => {
   ctx = ctx ?? useSpeakContext();
-  const { locale, translation, config } = ctx;
+  const { locale, translation, config, translationFn } = ctx;
 
   lang = lang ?? locale.lang;
 
   if (Array.isArray(keys)) {
-    return keys.map(key => $translate(key, params, ctx, lang));
+    return keys.map(key => translate(key, params, ctx, lang));
   }
 
-  return getValue(keys, translation[lang], params, config.keySeparator) || keys;
-}
+  let value = getValue(keys, translation[lang], params, config.keySeparator, config.keyValueSeparator, ctx, lang);
+
+  // Debug mode
+  if (config.debug) value = debugValue(keys, value, ctx, [lang, ...getFallbackLangs(lang, config)]);
+
+  if (value) return value;
+
+  // Missing translation
+  return invokeQrl(translationFn.handleMissingTranslation$, keys, params, lang) || keys;
+};
+
+/**
+ * Return a translate function bound to a key prefix and to the current Speak context.
+ * The prefix is joined to the keys by the key separator
+ * @param prefix Optional prefix of the keys, e.g. 'home'
+ * @returns A function with the same params of $translate, except for the context
+ */
+export const useTranslate = <P extends string = ''>(prefix?: P): TranslateFn<P> => {
+  const ctx = useSpeakContext();
+
+  const withPrefix = (key: string): string => prefix ? `${prefix}${ctx.config.keySeparator}${key}` : key;
+
+  return ((keys: string | string[], params?: any, lang?: string) =>
+    translate(Array.isArray(keys) ? keys.map(withPrefix) : withPrefix(keys), params, ctx, lang)) as TranslateFn<P>;
+};
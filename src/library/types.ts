@@ -26,6 +26,10 @@ export interface SpeakLocale {
    * Key value pairs of unit identifiers
    */
   units?: { [key: string]: string };
+  /**
+   * Text direction. If not set, it is derived from the script or the language
+   */
+  dir?: 'ltr' | 'rtl';
 }
 
 /**
@@ -33,17 +37,224 @@ export interface SpeakLocale {
  */
 export type Translation = { [key: string]: any };
 
+/**
+ * Separators of the keys. Empty unless augmented by the types generated by Qwik Speak Extract
+ */
+export interface TranslationSeparators { }
+
+type KeySeparator = TranslationSeparators extends { keySeparator: infer S extends string } ? S : '.';
+
+type KeyValueSeparator = TranslationSeparators extends { keyValueSeparator: infer S extends string } ? S : '@@';
+
+/**
+ * Keys of each asset. Empty unless augmented by the types generated by Qwik Speak Extract
+ */
+export interface TranslationAssets { }
+
+/**
+ * Params of each key. Empty unless augmented by the types generated by Qwik Speak Extract
+ */
+export interface TranslationKeys { }
+
+/**
+ * Prefixes of plural keys. Empty unless augmented by the types generated by Qwik Speak Extract
+ */
+export interface PluralKeys { }
+
+/**
+ * A key to translate: any string, or a generated key followed by an optional default value
+ */
+export type TranslationKey = keyof TranslationKeys extends never ? string :
+  Extract<keyof TranslationKeys, string> | `${Extract<keyof TranslationKeys, string>}${KeyValueSeparator}${string}`;
+
+/**
+ * The params of a key: any, or the generated params
+ */
+export type TranslationParams<K extends string = string> = keyof TranslationKeys extends never ? any :
+  K extends `${infer Key}${KeyValueSeparator}${string}` ? TranslationParams<Key> :
+  K extends keyof TranslationKeys ? TranslationKeys[K] : any;
+
+/**
+ * A key relative to a prefix: any string, or the generated keys starting with the prefix
+ */
+export type ScopedTranslationKey<P extends string> = P extends '' ? TranslationKey :
+  keyof TranslationKeys extends never ? string :
+  TranslationKey extends infer K ? K extends `${P}${KeySeparator}${infer R}` ? R : never : never;
+
+/**
+ * Translate function bound to a key prefix and to the Speak context
+ */
+export interface TranslateFn<P extends string = ''> {
+  <K extends ScopedTranslationKey<P>>(
+    key: K,
+    params?: TranslationParams<P extends '' ? K : `${P}${KeySeparator}${K}`>,
+    lang?: string
+  ): string;
+  <K extends ScopedTranslationKey<P>>(
+    keys: K[],
+    params?: TranslationParams<P extends '' ? K : `${P}${KeySeparator}${K}`>,
+    lang?: string
+  ): string[];
+}
+
+/**
+ * The prefix of a plural key: any string, or a generated prefix
+ */
+export type PluralPrefix = keyof PluralKeys extends never ? string : Extract<keyof PluralKeys, string>;
+
 /**
  * Must contain the logic to load translation data
  */
 export type LoadTranslationFn = QRL<(lang: string, asset: string, origin?: string) =>
   ValueOrPromise<Translation | null>>;
 
+/**
+ * Called when a translation is missing: it can return a replacement string, log or throw
+ */
+export type HandleMissingTranslationFn = QRL<(key: string, params: any, lang: string) => string | void>;
+
+/**
+ * Formats a param: receives the value, the optional argument of the format, the locale and the language
+ */
+export type FormatterFn = QRL<(value: any, arg: string | undefined, locale: SpeakLocale, lang: string) => string>;
+
+/**
+ * Escapes a param
+ */
+export type EscapeFn = QRL<(value: string) => string>;
+
 export interface TranslationFn {
   /**
    * Function to load translation data
    */
   loadTranslation$?: LoadTranslationFn;
+  /**
+   * Function to handle missing translations
+   */
+  handleMissingTranslation$?: HandleMissingTranslationFn;
+}
+
+export interface TranslationCacheOptions {
+  /**
+   * Scope of the cache of loaded translation data:
+   * - 'global': shared by all requests
+   * - 'origin': a cache for each origin, e.g. each tenant
+   * - 'request': a cache for each request on server, and for the app on client
+   * - 'none': no cache
+   * Default is 'global'
+   */
+  scope?: 'global' | 'origin' | 'request' | 'none';
+  /**
+   * Max number of cached assets for each scope. Default is 100
+   */
+  maxSize?: number;
+  /**
+   * Time to live of cached assets in milliseconds. Default is no expiration
+   */
+  ttl?: number;
+}
+
+export interface RetryOptions {
+  /**
+   * Number of retries of a failed asset. Default is 0
+   */
+  retries?: number;
+  /**
+   * Delay of the first retry in milliseconds. Default is 300
+   */
+  delay?: number;
+  /**
+   * Multiplier of the delay at each retry. Default is 2
+   */
+  factor?: number;
+}
+
+export interface SpeakDomain {
+  /**
+   * Hostnames of the language, e.g. ['example.it', 'it.example.com']. The first one is used in the localized URLs
+   */
+  hostnames: string[];
+  /**
+   * Keep the language prefix in the paths of the domain, e.g. 'example.it/it-IT/'. Default is false
+   */
+  prefix?: boolean;
+}
+
+export interface PseudoLocaleOptions {
+  /**
+   * The language of the pseudo-locale, e.g. 'en-XA'. It must be a supported locale
+   */
+  lang: string;
+  /**
+   * The language whose values are pseudo-localized. Default is the default locale
+   */
+  sourceLang?: string;
+  /**
+   * Accent the letters. Default is true
+   */
+  accents?: boolean;
+  /**
+   * Expansion of the length of the values, e.g. 0.3 for 30% longer values. Default is 0.3
+   */
+  expansion?: number;
+  /**
+   * Markers of the start and of the end of the values. Default is ['[', ']']
+   */
+  brackets?: [string, string];
+}
+
+/**
+ * Debug mode of the translations:
+ * - 'values': the values are rendered as they are
+ * - 'keys': the keys are rendered instead of the values
+ * - 'decorate': the values are decorated with their key and asset, e.g. 'Qwik Speak [app.title | app]'
+ * In all modes, the keys used are recorded for SpeakInspector
+ */
+export type SpeakDebug = 'values' | 'keys' | 'decorate';
+
+/**
+ * Use of a key, recorded in debug mode
+ */
+export interface KeyUsage {
+  /**
+   * The key, without the default value
+   */
+  key: string;
+  /**
+   * The language of the translation
+   */
+  lang: string;
+  /**
+   * Where the value comes from: an asset, the default value of the key, or nowhere
+   */
+  source: 'asset' | 'default' | 'missing';
+  /**
+   * The asset of the value, if recorded
+   */
+  asset?: string;
+}
+
+export interface PersistenceOptions {
+  /**
+   * Name of the cookie, readable on server by localeHandler. Default is 'locale'. False to disable
+   */
+  cookie?: string | false;
+  /**
+   * Max age of the cookie in seconds. Default is one year
+   */
+  maxAge?: number;
+  /**
+   * Key of localStorage. Default is 'locale'. False to disable
+   */
+  storageKey?: string | false;
+  /**
+   * Name of the BroadcastChannel to sync the locale across tabs. Default is 'qwik-speak'. False to disable
+   */
+  channel?: string | false;
+  /**
+   * Restore the persisted locale on client when the app starts, e.g. for static sites. Default is false
+   */
+  restoreOnClient?: boolean;
 }
 
 export interface SpeakConfig {
@@ -67,6 +278,77 @@ export interface SpeakConfig {
    * Key-value separator. Default is '@@'
    */
   keyValueSeparator?: string;
+  /**
+   * Syntax of the values:
+   * - 'default': '{{param}}' placeholders
+   * - 'icu': ICU MessageFormat, with plural, select, selectordinal, number and date arguments
+   * Default is 'default'
+   */
+  messageFormat?: 'default' | 'icu';
+  /**
+   * Fallback chain of languages for missing translations, e.g. { 'it-CH': ['it'] }
+   * If set, the default locale is always the last fallback
+   */
+  fallbackLangs?: { [lang: string]: string[] };
+  /**
+   * Custom formatters of params, used as '{{ value, name }}' or '{{ value, name:arg }}'.
+   * They take precedence over the built-in formatters
+   */
+  formatters?: { [name: string]: FormatterFn };
+  /**
+   * Cache of loaded translation data
+   */
+  translationCache?: TranslationCacheOptions;
+  /**
+   * Retries of failed assets with exponential backoff
+   */
+  retry?: RetryOptions;
+  /**
+   * Escape policy of params:
+   * - 'none': params are inserted as they are
+   * - 'html': HTML special characters are escaped
+   * - a custom function
+   * Default is 'none'. Params marked as trusted are never escaped
+   */
+  escape?: 'none' | 'html' | EscapeFn;
+  /**
+   * Translations of route segments by language, e.g. { 'it-IT': { about: 'chi-siamo' } }.
+   * Translated URLs are redirected, not rewritten: Qwik City can't rewrite a URL to another route,
+   * so a route must exist for each translated segment, e.g. by re-exporting the page
+   */
+  routes?: { [lang: string]: { [segment: string]: string } };
+  /**
+   * Domains by language, e.g. { 'it-IT': { hostnames: ['example.it'] } }
+   * Languages without a domain keep the path prefix on the current hostname
+   */
+  domains?: { [lang: string]: SpeakDomain };
+  /**
+   * Pseudo-locale whose values are the pseudo-localized values of the source language,
+   * to catch truncations and hard-coded texts
+   */
+  pseudoLocale?: PseudoLocaleOptions;
+  /**
+   * Opt-in persistence of the locale changed at runtime, and its sync across tabs
+   */
+  persistence?: PersistenceOptions;
+  /**
+   * Debug mode of the translations, e.g. in development
+   */
+  debug?: SpeakDebug;
+}
+
+/**
+ * Loading status of translation data
+ */
+export type SpeakStatus = 'loading' | 'loaded' | 'error';
+
+/**
+ * Asset that failed to load
+ */
+export interface SpeakError {
+  lang: string;
+  asset: string;
+  message: string;
 }
 
 export interface InternalSpeakState {
@@ -86,6 +368,26 @@ export interface InternalSpeakState {
    * Functions to use
    */
   translationFn: TranslationFn;
+  /**
+   * Loading status: 'error' if some assets failed to load
+   */
+  status: SpeakStatus;
+  /**
+   * Assets that failed to load
+   */
+  errors: SpeakError[];
+  /**
+   * Assets of mounted Speak components, loaded before changing locale
+   */
+  scopes: { [id: string]: string[] };
+  /**
+   * Assets of the keys by language, recorded in debug mode
+   */
+  keyAssets?: { [lang: string]: { [key: string]: string } };
+  /**
+   * Keys used by language in the server render, serialized for SpeakInspector in debug mode
+   */
+  keyUsages?: { [id: string]: KeyUsage };
 }
 
 /**
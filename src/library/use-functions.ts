@@ -2,9 +2,12 @@ import { useContext } from '@builder.io/qwik';
 
 import type { SpeakLocale, SpeakConfig, SpeakState } from './types';
 import { SpeakContext } from './context';
+import { getDirection } from './direction';
 
 export const useSpeakContext = (): SpeakState => useContext(SpeakContext);
 
 export const useSpeakLocale = (): SpeakLocale => useContext(SpeakContext).locale;
 
 export const useSpeakConfig = (): SpeakConfig => useContext(SpeakContext).config;
+
+export const useSpeakDirection = (): 'ltr' | 'rtl' => getDirection(useContext(SpeakContext).locale);
@@ -14,7 +14,7 @@ export default component$(() => {
     /**
      * Init Qwik Speak (only available in child components)
      */
-    <QwikSpeakProvider config={config} translationFn={translationFn}>
+    <QwikSpeakProvider config={config} translationFn={translationFn} debug={import.meta.env.DEV ? 'values' : undefined}>
       <QwikCityProvider>
         <head>
           <meta charSet="utf-8" />
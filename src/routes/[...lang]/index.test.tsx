@@ -1,32 +1,21 @@
-import { createDOM } from '@builder.io/qwik/testing';
-import { $ } from '@builder.io/qwik';
 import { test, expect } from 'vitest';
 
-import { LoadTranslationFn, QwikSpeakProvider, TranslationFn } from 'qwik-speak';
+import type { TestTranslations } from 'qwik-speak/testing';
+import { assertNoMissingTranslations, renderWithSpeak } from 'qwik-speak/testing';
 
 import Home from './index';
 import { config } from '../../speak-config';
 
-const loadTranslationStub$: LoadTranslationFn = $((lang: string, asset: string, origin?: string) =>
-  JSON.parse(
-    import.meta.glob('/public/i18n/**/*.json', { as: 'raw', eager: true })[
-    `/public/i18n/${lang}/${asset}.json`
-    ]
-  )
-);
-
-const translationFnStub: TranslationFn = {
-  loadTranslation$: loadTranslationStub$
-};
+// Translation data of the json files by language and asset
+const translations: TestTranslations = {};
+const files = import.meta.glob('/public/i18n/**/*.json', { as: 'raw', eager: true });
+for (const [path, data] of Object.entries(files)) {
+  const [, lang, asset] = path.match(/\/i18n\/([^/]+)\/([^/]+)\.json$/) ?? [];
+  translations[lang] = { ...translations[lang], [asset]: JSON.parse(data) };
+}
 
 test(`[Home Component]: Should render translated texts`, async () => {
-  const { screen, render, userEvent } = await createDOM();
-
-  await render(
-    <QwikSpeakProvider config={config} translationFn={translationFnStub}>
-      <Home />
-    </QwikSpeakProvider>
-  );
+  const { screen, userEvent } = await renderWithSpeak(<Home />, config, translations);
 
   expect(screen.outerHTML).toContain('Translate your Qwik apps into any language');
   expect(screen.outerHTML).toContain('0 software developers');
@@ -35,3 +24,7 @@ test(`[Home Component]: Should render translated texts`, async () => {
   await userEvent('.btn-counter', 'click');
   expect(counter.innerHTML).toEqual('1 software developer');
 });
+
+test(`[Home Component]: Should have translations in each supported locale`, async () => {
+  await assertNoMissingTranslations(<Home />, config, translations);
+});
@@ -7,6 +7,7 @@ import {
   formatNumber as fn,
   relativeTime as rt,
   Speak,
+  Trans,
   useSpeakLocale
 } from 'qwik-speak';
 
@@ -24,7 +25,7 @@ export const Home = component$(() => {
       <p>{t('home.greeting', { name: 'Qwik Speak' })}</p>
 
       <h3>{t('home.tags')}</h3>
-      <p dangerouslySetInnerHTML={t('home.text')}></p>
+      <p><Trans value={t('home.text')} components={{ em: (props) => <em>{props.children}</em> }} /></p>
 
       <h3>{t('home.plural')}</h3>
       <button class="btn-counter" onClick$={() => state.count++}>{t('home.increment')}</button>
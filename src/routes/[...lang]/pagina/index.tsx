@@ -0,0 +1,2 @@
+// Translated segment of the page route
+export { default, head } from '../page';
@@ -1,23 +1,28 @@
 import { component$, Slot } from '@builder.io/qwik';
-import { RequestHandler } from '@builder.io/qwik-city';
+import { useLocation } from '@builder.io/qwik-city';
+import { SpeakInspector } from 'qwik-speak';
+import { localeHandler, localizedRoutesHandler } from 'qwik-speak/routing';
 
 import { Header } from '../components/header/header';
 import { config } from '../speak-config';
 
 export default component$(() => {
+  const loc = useLocation();
+
   return (
     <>
       <Header />
       <main>
         <Slot />
       </main>
+      {/* Keys used on the page: rendered only in debug mode */}
+      <SpeakInspector url={loc.href} />
     </>
   );
 });
 
-export const onRequest: RequestHandler = ({ params, locale }) => {
-  const lang = params.lang;
+// Set Qwik locale from the lang param of the URL, or from the domain
+export const onRequest = localeHandler(config, { strategies: ['param', 'domain'] });
 
-  // Set Qwik locale
-  locale(lang || config.defaultLocale.lang);
-};
+// Redirect to the translated segments of the routes
+export const onGet = localizedRoutesHandler(config);
@@ -0,0 +1,19 @@
+// Types
+export type { LocalizedLinkProps } from './localized-link-component';
+export type { LocalizedHeadProps } from './localized-head-component';
+export type { ResolveLocaleFn, LocaleStrategy, LocaleHandlerOptions } from './locale-handler';
+// Components
+export { LocalizedLink } from './localized-link-component';
+export { LocalizedHead } from './localized-head-component';
+// Functions
+export { localeHandler } from './locale-handler';
+export {
+  localizePath,
+  localizeUrl,
+  getRoutePath,
+  getUrlLang,
+  getAlternates,
+  localizedRoutesHandler
+} from './routing';
+// Use functions
+export { useLocalizedUrl } from './routing';
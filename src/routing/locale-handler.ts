@@ -0,0 +1,80 @@
+import type { QRL, ValueOrPromise } from '@builder.io/qwik';
+import type { RequestEvent, RequestHandler } from '@builder.io/qwik-city';
+import { getDomainLang, matchLocale, negotiateLocale } from 'qwik-speak';
+import type { SpeakConfig, SpeakLocale } from 'qwik-speak';
+
+/**
+ * Custom logic to resolve the language of a request
+ */
+export type ResolveLocaleFn = QRL<(requestEvent: RequestEvent) => ValueOrPromise<string | null | undefined>>;
+
+export type LocaleStrategy = 'param' | 'domain' | 'cookie' | 'header' | 'custom';
+
+export interface LocaleHandlerOptions {
+  /**
+   * Strategies to try in order. Default is ['custom', 'param', 'domain', 'cookie', 'header']
+   */
+  strategies?: LocaleStrategy[];
+  /**
+   * Name of the URL param containing the language. Default is 'lang'
+   */
+  param?: string;
+  /**
+   * Name of the cookie containing the language. Default is the cookie of Speak config persistence, or 'locale'
+   */
+  cookie?: string;
+  /**
+   * Optional function to resolve the language
+   */
+  resolveLocale$?: ResolveLocaleFn;
+}
+
+/**
+ * Resolve the locale of a request and set Qwik locale, so that QwikSpeakProvider can use it.
+ * Fallback to the default locale
+ * @param config Speak config
+ * @param options Optional strategies to use
+ * @returns A Qwik City request handler, e.g. `export const onRequest = localeHandler(config);`
+ */
+export const localeHandler = (config: SpeakConfig, options?: LocaleHandlerOptions): RequestHandler => {
+  const strategies = options?.strategies ?? ['custom', 'param', 'domain', 'cookie', 'header'];
+  const param = options?.param ?? 'lang';
+  const cookie = options?.cookie || config.persistence?.cookie || 'locale';
+
+  return async (requestEvent: RequestEvent) => {
+    let resolvedLocale: SpeakLocale | undefined;
+
+    for (const strategy of strategies) {
+      switch (strategy) {
+        case 'custom':
+          if (options?.resolveLocale$) {
+            const lang = await options.resolveLocale$(requestEvent);
+            if (lang) resolvedLocale = matchLocale(lang, config.supportedLocales);
+          }
+          break;
+        case 'param': {
+          // Only the first segment of a catch-all param, matched exactly
+          const lang = requestEvent.params[param]?.split('/')[0];
+          resolvedLocale = config.supportedLocales.find(value => value.lang === lang);
+          break;
+        }
+        case 'domain':
+          resolvedLocale = matchLocale(getDomainLang(requestEvent.url.hostname, config) ?? '', config.supportedLocales);
+          break;
+        case 'cookie':
+          resolvedLocale = matchLocale(requestEvent.cookie.get(cookie)?.value ?? '', config.supportedLocales);
+          break;
+        case 'header':
+          resolvedLocale = negotiateLocale(
+            requestEvent.request.headers.get('accept-language') ?? '',
+            config.supportedLocales
+          );
+          break;
+      }
+      if (resolvedLocale) break;
+    }
+
+    // Set Qwik locale
+    requestEvent.locale(resolvedLocale?.lang ?? config.defaultLocale.lang);
+  };
+};
@@ -0,0 +1,61 @@
+import { component$ } from '@builder.io/qwik';
+import { useDocumentHead, useLocation } from '@builder.io/qwik-city';
+import { $translate, useSpeakConfig, useSpeakLocale } from 'qwik-speak';
+import type { TranslationKey } from 'qwik-speak';
+
+import { getAlternates } from './routing';
+
+export interface LocalizedHeadProps {
+  /**
+   * Optional parameters contained in the title and in the translated meta
+   */
+  params?: any;
+  /**
+   * Names or properties of the meta whose content is a key to translate.
+   * Default is ['description', 'og:title', 'og:description', 'twitter:title', 'twitter:description']
+   */
+  translatedMeta?: string[];
+}
+
+/**
+ * Render the head of the document translating title and meta from the keys of DocumentHead,
+ * the hreflang alternates of the supported locales, and the Open Graph locales.
+ * Place it inside the <head> element
+ */
+export const LocalizedHead = component$((props: LocalizedHeadProps) => {
+  const head = useDocumentHead();
+  const loc = useLocation();
+  const config = useSpeakConfig();
+  const locale = useSpeakLocale();
+
+  const translatedMeta = props.translatedMeta ??
+    ['description', 'og:title', 'og:description', 'twitter:title', 'twitter:description'];
+
+  // Open Graph locale, e.g. 'en_US'
+  const toOgLocale = (lang: string): string => lang.replace(/-/g, '_');
+
+  return (
+    <>
+      {head.title && <title>{$translate(head.title as TranslationKey, props.params)}</title>}
+
+      {head.meta.map(({ key, ...meta }, i) => (
+        <meta
+          key={key ?? `meta-${i}`}
+          {...meta}
+          content={meta.content && translatedMeta.includes(meta.name ?? meta.property ?? '') ?
+            $translate(meta.content as TranslationKey, props.params) :
+            meta.content}
+        />
+      ))}
+
+      {getAlternates(loc.href, config, loc.params).map(alternate => (
+        <link key={`alternate-${alternate.hreflang}`} rel="alternate" hrefLang={alternate.hreflang} href={alternate.href} />
+      ))}
+
+      <meta property="og:locale" content={toOgLocale(locale.lang)} />
+      {config.supportedLocales.filter(value => value.lang !== locale.lang).map(value => (
+        <meta key={`og-locale-${value.lang}`} property="og:locale:alternate" content={toOgLocale(value.lang)} />
+      ))}
+    </>
+  );
+});
@@ -0,0 +1,26 @@
+import { component$, Slot } from '@builder.io/qwik';
+import { Link, useLocation } from '@builder.io/qwik-city';
+import type { LinkProps } from '@builder.io/qwik-city';
+
+import { localizeUrl } from './routing';
+
+export interface LocalizedLinkProps extends LinkProps {
+  /**
+   * Optional language if different from the current one
+   */
+  lang?: string;
+}
+
+/**
+ * Qwik City Link whose href is localized by localizeUrl: links to the domain of another language are absolute
+ */
+export const LocalizedLink = component$((props: LocalizedLinkProps) => {
+  const { lang, href, ...linkProps } = props;
+  const loc = useLocation();
+
+  return (
+    <Link {...linkProps} href={href?.startsWith('/') ? localizeUrl(new URL(href, loc.href).href, lang) : href}>
+      <Slot />
+    </Link>
+  );
+});
@@ -0,0 +1,268 @@
+import { useLocation } from '@builder.io/qwik-city';
+import type { RequestEvent, RequestHandler } from '@builder.io/qwik-city';
+import { getDomainLang, useSpeakConfig, useSpeakLocale } from 'qwik-speak';
+import type { SpeakConfig } from 'qwik-speak';
+
+/**
+ * Split a path into the segments of the pathname and the search and hash
+ */
+const splitPath = (path: string): [string[], string] => {
+  const [, pathname, suffix] = path.match(/^([^?#]*)(.*)$/s) ?? ['', path, ''];
+  return [pathname.split('/'), suffix];
+};
+
+/**
+ * The language of the paths without prefix on a hostname: the one of the domain, or the default one
+ */
+const getHostLang = (hostname: string | undefined, config: SpeakConfig): string => {
+  return (hostname ? getDomainLang(hostname, config) : undefined) ?? config.defaultLocale.lang;
+};
+
+/**
+ * Whether the paths of a language have the prefix on a hostname
+ */
+const hasPrefix = (lang: string, hostname: string | undefined, config: SpeakConfig): boolean => {
+  const domainLang = hostname ? getDomainLang(hostname, config) : undefined;
+  return lang !== getHostLang(hostname, config) || !!(domainLang && config.domains?.[domainLang]?.prefix);
+};
+
+/**
+ * Remove the language from the segments of a path
+ * @returns The language of the path, or the one of the hostname
+ */
+const removeLang = (segments: string[], config: SpeakConfig, hostname?: string): string => {
+  const locale = config.supportedLocales.find(value => value.lang.toLowerCase() === segments[1]?.toLowerCase());
+  if (!locale) return getHostLang(hostname, config);
+
+  segments.splice(1, 1);
+  return locale.lang;
+};
+
+/**
+ * Return the indexes of the segments of the dynamic params of a route, e.g. '[slug]' or '[...rest]'.
+ * The values of the params are matched from the end of the path
+ */
+const getDynamicIndexes = (segments: string[], params?: Record<string, string>): Set<number> => {
+  const indexes = new Set<number>();
+  const values = Object.values(params ?? {}).flatMap(value => value.split('/')).filter(value => value);
+
+  let end = segments.length;
+  for (const value of values.reverse()) {
+    const index = end > 0 ? segments.lastIndexOf(value, end - 1) : -1;
+    if (index === -1) continue;
+
+    indexes.add(index);
+    end = index;
+  }
+  return indexes;
+};
+
+/**
+ * Replace the translated segments with the real ones: first those of the language, then those of the other ones.
+ * The segments of dynamic params are not replaced
+ */
+const toRouteSegments = (segments: string[], lang: string, config: SpeakConfig, dynamic: Set<number>): string[] => {
+  const langs = Object.keys(config.routes ?? {}).sort((a, b) => +(b === lang) - +(a === lang));
+  const routes = langs.flatMap(value => Object.entries(config.routes?.[value] ?? {}));
+  if (routes.length === 0) return segments;
+
+  return segments.map((segment, index) => dynamic.has(index) ?
+    segment :
+    routes.find(([, translated]) => translated === segment)?.[0] ?? segment);
+};
+
+/**
+ * Translate the real segments in a language. The segments of dynamic params are not translated
+ */
+const toTranslatedSegments = (
+  segments: string[],
+  lang: string,
+  config: SpeakConfig,
+  dynamic: Set<number>
+): string[] => {
+  const routes = config.routes?.[lang];
+  if (!routes) return segments;
+
+  return segments.map((segment, index) => !dynamic.has(index) && Object.prototype.hasOwnProperty.call(routes, segment) ?
+    routes[segment] :
+    segment);
+};
+
+/**
+ * Localize the segments of a path from a hostname to another one
+ */
+const localizeSegments = (
+  path: string,
+  lang: string,
+  config: SpeakConfig,
+  params?: Record<string, string>,
+  hostname?: string,
+  targetHostname = hostname
+): string => {
+  const [pathSegments, suffix] = splitPath(path);
+
+  // Remove the current language
+  const pathLang = removeLang(pathSegments, config, hostname);
+
+  const dynamic = getDynamicIndexes(pathSegments, params);
+  const routeSegments = toRouteSegments(pathSegments, pathLang, config, dynamic);
+  const segments = toTranslatedSegments(routeSegments, lang, config, dynamic);
+  // Add the new language
+  if (hasPrefix(lang, targetHostname, config)) {
+    segments.splice(1, 0, lang);
+  }
+
+  return (segments.join('/') || '/') + suffix;
+};
+
+/**
+ * Localize a path following the '[...lang]' route convention: the language is the first segment of the path,
+ * except for the default locale, which has no prefix. Segments are translated by the routes of Speak config.
+ * Search, hash and trailing slash are preserved, while relative paths are returned as they are
+ * @param path The path, e.g. '/page/' or '/it-IT/page/?id=1'
+ * @param lang Optional language if different from the current one
+ * @param config Optional Speak config to be provided outside the component$
+ * @param params Optional params of the route of the path, whose segments are not translated
+ * @returns The localized path, e.g. '/it-IT/page/' or '/page/'
+ */
+export const localizePath = (
+  path: string,
+  lang?: string,
+  config?: SpeakConfig,
+  params?: Record<string, string>
+): string => {
+  config = config ?? useSpeakConfig();
+  lang = lang ?? useSpeakLocale().lang;
+
+  if (!path.startsWith('/')) return path;
+
+  return localizeSegments(path, lang, config, params);
+};
+
+/**
+ * Localize an absolute URL like localizePath, following the domains of Speak config:
+ * on the domain of a language its paths have no prefix, and switching to a language of another domain
+ * produces an absolute URL
+ * @param url The absolute URL, e.g. 'https://example.com/page/'
+ * @param lang Optional language if different from the current one
+ * @param config Optional Speak config to be provided outside the component$
+ * @param params Optional params of the route of the URL, e.g. the params of Qwik City location:
+ * their segments are not translated
+ * @returns The localized path, e.g. '/it-IT/page/', or the absolute URL on another domain,
+ * e.g. 'https://example.it/page/'
+ */
+export const localizeUrl = (
+  url: string,
+  lang?: string,
+  config?: SpeakConfig,
+  params?: Record<string, string>
+): string => {
+  config = config ?? useSpeakConfig();
+  lang = lang ?? useSpeakLocale().lang;
+
+  const { protocol, hostname, port, pathname, search, hash } = new URL(url);
+
+  const domain = config.domains?.[lang];
+  const targetHostname = domain && !domain.hostnames.some(value => value.toLowerCase() === hostname.toLowerCase()) ?
+    domain.hostnames[0] :
+    hostname;
+
+  const path = localizeSegments(pathname + search + hash, lang, config, params, hostname, targetHostname);
+  if (targetHostname === hostname) return path;
+
+  return `${protocol}//${targetHostname}${port ? `:${port}` : ''}${path}`;
+};
+
+/**
+ * Return the language of a localized URL: the prefix of the path, or the domain, or the default one
+ * @param url The absolute URL, e.g. 'https://example.it/pagina/'
+ * @param config Speak config
+ * @returns The language
+ */
+export const getUrlLang = (url: string, config: SpeakConfig): string => {
+  const { hostname, pathname } = new URL(url);
+  const [pathSegments] = splitPath(pathname);
+  return removeLang(pathSegments, config, hostname);
+};
+
+/**
+ * Return the route of a localized path, without the language and with the real segments
+ * @param path The localized path, e.g. '/it-IT/chi-siamo/'
+ * @param config Speak config
+ * @param params Optional params of the route, e.g. the params of Qwik City location: their segments are kept
+ * @returns The route path, e.g. '/about/'
+ */
+export const getRoutePath = (path: string, config: SpeakConfig, params?: Record<string, string>): string => {
+  if (!path.startsWith('/')) return path;
+
+  const [pathSegments, suffix] = splitPath(path);
+  const pathLang = removeLang(pathSegments, config);
+
+  const segments = toRouteSegments(pathSegments, pathLang, config, getDynamicIndexes(pathSegments, params));
+
+  return (segments.join('/') || '/') + suffix;
+};
+
+/**
+ * Return the alternate URLs of a URL for each supported locale, plus 'x-default' for the default locale
+ * @param url The absolute URL, e.g. the href of Qwik City location
+ * @param config Speak config
+ * @param params Optional params of the route, e.g. the params of Qwik City location: their segments are not translated
+ * @returns The hreflang and the localized href of each alternate
+ */
+export const getAlternates = (
+  url: string,
+  config: SpeakConfig,
+  params?: Record<string, string>
+): { hreflang: string, href: string }[] => {
+  const { origin, pathname, search } = new URL(url);
+
+  const getHref = (lang: string) =>
+    new URL(localizeUrl(origin + pathname + search, lang, config, params), origin).href;
+
+  return [
+    ...config.supportedLocales.map(value => ({ hreflang: value.lang, href: getHref(value.lang) })),
+    { hreflang: 'x-default', href: getHref(config.defaultLocale.lang) }
+  ];
+};
+
+/**
+ * Return a function to localize the current URL
+ * @returns A function that takes the language and returns the localized path, search and hash,
+ * or the absolute URL on the domain of the language
+ */
+export const useLocalizedUrl = (): (lang?: string) => string => {
+  const loc = useLocation();
+  const config = useSpeakConfig();
+  const currentLang = useSpeakLocale().lang;
+
+  return (lang?: string) => localizeUrl(loc.href, lang ?? currentLang, config, loc.params);
+};
+
+/**
+ * Redirect the requests whose segments are not translated in the language of the path,
+ * e.g. '/it-IT/about/' to '/it-IT/chi-siamo/', or '/chi-siamo/' to '/about/',
+ * and the requests of a language to its domain, e.g. 'example.com/it-IT/' to 'example.it/'.
+ * The segments of the dynamic params of the route are not translated.
+ * Qwik City can't rewrite a URL: the requests are redirected, not rewritten,
+ * so the routes of the translated segments must exist, e.g. by re-exporting the pages
+ * @param config Speak config
+ * @param statusCode Optional redirect status code. Default is 301
+ * @returns A Qwik City request handler, e.g. `export const onGet = localizedRoutesHandler(config);`
+ */
+export const localizedRoutesHandler = (
+  config: SpeakConfig,
+  statusCode: 301 | 302 | 307 | 308 = 301
+): RequestHandler => {
+  return (requestEvent: RequestEvent) => {
+    const { href, pathname, search } = requestEvent.url;
+    // Skip data requests of client navigation
+    if (pathname.endsWith('/q-data.json')) return;
+
+    const localizedUrl = localizeUrl(href, getUrlLang(href, config), config, requestEvent.params);
+
+    if (localizedUrl !== pathname + search) {
+      throw requestEvent.redirect(statusCode, localizedUrl);
+    }
+  };
+};
@@ -18,7 +18,10 @@ export const config: SpeakConfig = {
   assets: [
     'app', // Translations shared by the pages
     'runtime' // Translations with dynamic keys or parameters
-  ]
+  ],
+  routes: {
+    'it-IT': { page: 'pagina' }
+  }
 };
 
 /**
@@ -0,0 +1,6 @@
+// Types
+export type { TestTranslations } from './test-context';
+export type { MissingTranslation, RenderResult, LocaleRenderResult } from './render';
+// Functions
+export { createSpeakTestContext } from './test-context';
+export { renderWithSpeak, renderEachLocale, assertNoMissingTranslations } from './render';
@@ -0,0 +1,114 @@
+import { inlinedQrl, useLexicalScope } from '@builder.io/qwik';
+import type { JSXNode } from '@builder.io/qwik';
+import { createDOM } from '@builder.io/qwik/testing';
+import { QwikSpeakProvider } from 'qwik-speak';
+import type { SpeakConfig, SpeakLocale, TranslationFn } from 'qwik-speak';
+
+import type { TestTranslations } from './test-context';
+
+export interface MissingTranslation {
+  key: string;
+  lang: string;
+}
+
+export interface RenderResult extends Awaited<ReturnType<typeof createDOM>> {
+  /**
+   * The keys without translation, in order of occurrence
+   */
+  missingTranslations: MissingTranslation[];
+}
+
+export interface LocaleRenderResult extends RenderResult {
+  /**
+   * The locale of the render
+   */
+  locale: SpeakLocale;
+  /**
+   * The keys without translation in the language of the locale
+   */
+  missingKeys: string[];
+}
+
+/**
+ * Render a component inside QwikSpeakProvider, which loads the translation data from memory.
+ * If not set in config, the translation cache is disabled, so that each render loads its own data
+ * @param jsx The component to render, e.g. <Home />
+ * @param config Speak config
+ * @param translations Translation data by language and asset
+ * @param locale Optional locale to use. Default is the default locale
+ * @returns screen, render and userEvent of Qwik testing DOM, and the missing translations
+ */
+export const renderWithSpeak = async (
+  jsx: JSXNode,
+  config: SpeakConfig,
+  translations: TestTranslations,
+  locale?: SpeakLocale
+): Promise<RenderResult> => {
+  const missingTranslations: MissingTranslation[] = [];
+
+  const translationFn: TranslationFn = {
+    loadTranslation$: inlinedQrl((lang: string, asset: string) => {
+      const [translations] = useLexicalScope<[TestTranslations]>();
+      return translations[lang]?.[asset] ?? null;
+    }, 'renderWithSpeak_loadTranslation', [translations]),
+    handleMissingTranslation$: inlinedQrl((key: string, params: any, lang: string) => {
+      const [missingTranslations] = useLexicalScope<[MissingTranslation[]]>();
+      missingTranslations.push({ key, lang });
+      return key;
+    }, 'renderWithSpeak_handleMissingTranslation', [missingTranslations])
+  };
+
+  const dom = await createDOM();
+  await dom.render(
+    <QwikSpeakProvider
+      config={{ ...config, translationCache: config.translationCache ?? { scope: 'none' } }}
+      translationFn={translationFn}
+      locale={locale}
+    >
+      {jsx}
+    </QwikSpeakProvider>
+  );
+  return { ...dom, missingTranslations };
+};
+
+/**
+ * Render a component once for each supported locale, collecting the missing translations
+ * @param jsx The component to render
+ * @param config Speak config
+ * @param translations Translation data by language and asset
+ * @returns The result of each render, in the order of the supported locales
+ */
+export const renderEachLocale = async (
+  jsx: JSXNode,
+  config: SpeakConfig,
+  translations: TestTranslations
+): Promise<LocaleRenderResult[]> => {
+  const results: LocaleRenderResult[] = [];
+
+  for (const locale of config.supportedLocales) {
+    const result = await renderWithSpeak(jsx, config, translations, locale);
+    const missingKeys = result.missingTranslations.filter(value => value.lang === locale.lang).map(value => value.key);
+    results.push({ ...result, locale, missingKeys: [...new Set(missingKeys)] });
+  }
+
+  return results;
+};
+
+/**
+ * Render a component once for each supported locale, and throw an error listing the missing translations
+ * @param jsx The component to render
+ * @param config Speak config
+ * @param translations Translation data by language and asset
+ */
+export const assertNoMissingTranslations = async (
+  jsx: JSXNode,
+  config: SpeakConfig,
+  translations: TestTranslations
+): Promise<void> => {
+  const results = await renderEachLocale(jsx, config, translations);
+
+  const missing = results.flatMap(result => result.missingKeys.map(key => `${result.locale.lang}: ${key}`));
+  if (missing.length > 0) {
+    throw new Error(`Missing translations:\n${missing.join('\n')}`);
+  }
+};
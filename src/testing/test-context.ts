@@ -0,0 +1,60 @@
+import { inlinedQrl, useLexicalScope } from '@builder.io/qwik';
+import type { SpeakConfig, SpeakLocale, SpeakState, Translation } from 'qwik-speak';
+
+import { deepMerge } from '../library/merge';
+
+/**
+ * Translation data by language and asset, e.g. { 'en-US': { app: { title: 'Qwik Speak' } } }
+ */
+export type TestTranslations = { [lang: string]: { [asset: string]: Translation } };
+
+/**
+ * Create a Speak context with the translation data already loaded, to test functions outside components,
+ * e.g. `$translate('app.title', {}, ctx)`. Missing translations return the key
+ * @param config Speak config
+ * @param translations Translation data by language and asset
+ * @param locale Optional locale to use. Default is the default locale
+ * @returns The Speak context
+ */
+export const createSpeakTestContext = (
+  config: SpeakConfig,
+  translations: TestTranslations,
+  locale: SpeakLocale = config.defaultLocale
+): SpeakState => {
+  const translation: Translation = {};
+  for (const { lang } of config.supportedLocales) {
+    translation[lang] = {};
+  }
+  // As at runtime: the assets of config in their order, then the other ones. Later assets win
+  const getIndex = (asset: string) =>
+    config.assets.includes(asset) ? config.assets.indexOf(asset) : config.assets.length;
+  for (const [lang, assets] of Object.entries(translations)) {
+    translation[lang] = translation[lang] ?? {};
+    for (const asset of Object.keys(assets).sort((a, b) => getIndex(a) - getIndex(b))) {
+      deepMerge(translation[lang], assets[asset]);
+    }
+  }
+
+  return {
+    locale: { ...locale },
+    translation,
+    config: {
+      ...config,
+      keySeparator: config.keySeparator || '.',
+      keyValueSeparator: config.keyValueSeparator || '@@',
+      messageFormat: config.messageFormat || 'default',
+      escape: config.escape || 'none'
+    },
+    translationFn: {
+      loadTranslation$: inlinedQrl((lang: string, asset: string) => {
+        const [translations] = useLexicalScope<[TestTranslations]>();
+        return translations[lang]?.[asset] ?? null;
+      }, 'createSpeakTestContext_loadTranslation', [translations]),
+      handleMissingTranslation$: inlinedQrl((key: string) => key,
+        'createSpeakTestContext_handleMissingTranslation')
+    },
+    status: 'loaded',
+    errors: [],
+    scopes: {}
+  };
+};
@@ -0,0 +1,103 @@
+import { test, describe, expect, vi } from 'vitest';
+import { inlinedQrl } from '@builder.io/qwik';
+
+import {
+  clearFormatters,
+  clearTranslationCache,
+  createCache,
+  getFormatter,
+  getTranslationCache,
+  normalizeOptions
+} from '../library/cache';
+import { memoize } from '../library/core';
+import { ctx } from './config';
+
+const loadTranslation = vi.fn((lang: string) =>
+  lang === 'it-IT' ? Promise.reject(new Error('Network error')) : Promise.resolve({ lang }));
+
+describe('cache', () => {
+  test('createCache', () => {
+    const cache = createCache<number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    // 'a' becomes the most recently used
+    expect(cache.get('a')).toBe(1);
+    cache.set('c', 3);
+    expect(cache.size).toBe(2);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+  });
+  test('normalizeOptions', () => {
+    expect(normalizeOptions({ style: 'currency', currency: 'EUR' }))
+      .toBe(normalizeOptions({ currency: 'EUR', style: 'currency', unit: undefined }));
+    expect(normalizeOptions(undefined)).toBe('');
+  });
+  test('getFormatter', () => {
+    clearFormatters();
+    const formatter = getFormatter('NumberFormat', 'en-US', { style: 'percent' },
+      () => new Intl.NumberFormat('en-US', { style: 'percent' }));
+    expect(getFormatter('NumberFormat', 'en-US', { style: 'percent' }, () => new Intl.NumberFormat('en-US')))
+      .toBe(formatter);
+    expect(getFormatter('NumberFormat', 'it-IT', { style: 'percent' }, () => new Intl.NumberFormat('it-IT')))
+      .not.toBe(formatter);
+  });
+  test('createCache with ttl', () => {
+    vi.useFakeTimers();
+    const cache = createCache<number>(2, 1000);
+    cache.set('a', 1);
+    vi.advanceTimersByTime(500);
+    expect(cache.get('a')).toBe(1);
+    vi.advanceTimersByTime(1000);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+    vi.useRealTimers();
+  });
+  test('getTranslationCache', () => {
+    const withScope = (scope: 'global' | 'origin' | 'request' | 'none') =>
+      ({ ...ctx, config: { ...ctx.config, translationCache: { scope } } });
+
+    expect(getTranslationCache(withScope('none'))).toBeUndefined();
+    expect(getTranslationCache(withScope('global'), 'https://a.com'))
+      .toBe(getTranslationCache(withScope('global'), 'https://b.com'));
+    expect(getTranslationCache(withScope('origin'), 'https://a.com'))
+      .not.toBe(getTranslationCache(withScope('origin'), 'https://b.com'));
+    const requestCtx = withScope('request');
+    expect(getTranslationCache(requestCtx)).toBe(getTranslationCache(requestCtx));
+    expect(getTranslationCache(requestCtx)).not.toBe(getTranslationCache(withScope('request')));
+  });
+  test('memoize', async () => {
+    const cache = createCache<Promise<any>>(10);
+    const memoized = memoize(inlinedQrl(loadTranslation, 'cache_loadTranslation'), cache);
+
+    await memoized('en-US', 'app', undefined);
+    await memoized('en-US', 'app', undefined);
+    expect(loadTranslation).toHaveBeenCalledTimes(1);
+
+    await expect(memoized('it-IT', 'app', undefined)).rejects.toThrow('Network error');
+    expect(cache.size).toBe(1);
+    await expect(memoized('it-IT', 'app', undefined)).rejects.toThrow('Network error');
+    expect(loadTranslation).toHaveBeenCalledTimes(3);
+  });
+  test('clearTranslationCache', async () => {
+    const cache = getTranslationCache(ctx);
+    cache?.set(JSON.stringify(['en-US', 'app', undefined]), Promise.resolve({}));
+    cache?.set(JSON.stringify(['it-IT', 'app', undefined]), Promise.resolve({}));
+    clearTranslationCache('it-IT');
+    expect(cache?.keys()).toEqual([JSON.stringify(['en-US', 'app', undefined])]);
+    clearTranslationCache();
+    expect(cache?.size).toBe(0);
+  });
+  test('clearTranslationCache in request scope', () => {
+    const requestCtx = { ...ctx, config: { ...ctx.config, translationCache: { scope: 'request' as const } } };
+    const cache = getTranslationCache(requestCtx);
+    cache?.set(JSON.stringify(['en-US', 'app', undefined]), Promise.resolve({}));
+    // A language doesn't drop the request caches
+    clearTranslationCache('it-IT');
+    expect(getTranslationCache(requestCtx)).toBe(cache);
+    expect(cache?.size).toBe(1);
+    clearTranslationCache();
+    expect(getTranslationCache(requestCtx)).not.toBe(cache);
+    expect(getTranslationCache(requestCtx)?.size).toBe(0);
+  });
+});
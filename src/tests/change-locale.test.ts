@@ -0,0 +1,109 @@
+import { test, describe, expect, vi, afterEach } from 'vitest';
+import { inlinedQrl } from '@builder.io/qwik';
+
+import type { SpeakState } from '../library/types';
+import { changeLocale, syncLocale, syncPersistedLocale } from '../library/change-locale';
+import { ctx } from './config';
+
+const loadTranslation = async (lang: string, asset: string) => {
+  await new Promise(resolve => setTimeout(resolve, lang === 'it-IT' ? 20 : 0));
+  return { [asset]: { title: `${asset} ${lang}` } };
+};
+
+const createCtx = (): SpeakState => {
+  return {
+    ...ctx,
+    locale: { ...ctx.config.defaultLocale },
+    translation: { 'en-US': {}, 'it-IT': {} },
+    config: { ...ctx.config, assets: ['app'], translationCache: { scope: 'none' } },
+    translationFn: {
+      ...ctx.translationFn,
+      loadTranslation$: inlinedQrl(loadTranslation, 'changeLocale_loadTranslation')
+    },
+    status: 'loaded',
+    errors: [],
+    scopes: { s0: ['home'] }
+  };
+};
+
+describe('changeLocale function', () => {
+  test('preload', async () => {
+    const changeCtx = createCtx();
+    const change = changeLocale(ctx.config.supportedLocales[0], changeCtx);
+    expect(changeCtx.status).toBe('loading');
+    expect(changeCtx.locale.lang).toBe('en-US');
+
+    expect(await change).toBe(true);
+    expect(changeCtx.status).toBe('loaded');
+    expect(changeCtx.locale.lang).toBe('it-IT');
+    expect(changeCtx.translation['it-IT']).toEqual({ app: { title: 'app it-IT' }, home: { title: 'home it-IT' } });
+  });
+  test('superseded', async () => {
+    const changeCtx = createCtx();
+    const first = changeLocale(ctx.config.supportedLocales[0], changeCtx);
+    const second = changeLocale(ctx.config.supportedLocales[1], changeCtx);
+    expect(await second).toBe(true);
+    expect(await first).toBe(false);
+    expect(changeCtx.locale.lang).toBe('en-US');
+  });
+});
+
+describe('syncLocale function', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('not persisted', async () => {
+    const cookies: string[] = [];
+    vi.stubGlobal('document', { set cookie(value: string) { cookies.push(value); } });
+
+    const syncCtx = createCtx();
+    syncCtx.config = { ...syncCtx.config, persistence: { storageKey: false, channel: false } };
+
+    expect(await syncLocale(ctx.config.supportedLocales[0], syncCtx)).toBe(true);
+    expect(syncCtx.locale.lang).toBe('it-IT');
+    expect(cookies).toEqual([]);
+
+    expect(await changeLocale(ctx.config.supportedLocales[1], syncCtx)).toBe(true);
+    expect(cookies.length).toBe(1);
+  });
+  test('current and pending locale', async () => {
+    const syncCtx = createCtx();
+    expect(await syncLocale(ctx.config.supportedLocales[1], syncCtx)).toBe(false);
+
+    const first = syncLocale(ctx.config.supportedLocales[0], syncCtx);
+    // Same as the pending locale
+    expect(await syncLocale(ctx.config.supportedLocales[0], syncCtx)).toBe(false);
+    // Same as the current locale, but not as the pending one
+    const second = syncLocale(ctx.config.supportedLocales[1], syncCtx);
+    expect(await second).toBe(true);
+    expect(await first).toBe(false);
+    expect(syncCtx.locale.lang).toBe('en-US');
+  });
+  test('syncPersistedLocale', async () => {
+    const cookies: string[] = [];
+    vi.stubGlobal('document', {
+      get cookie() { return 'locale=it-IT'; },
+      set cookie(value: string) { cookies.push(value); }
+    });
+
+    const syncCtx = createCtx();
+    syncCtx.config = { ...syncCtx.config, persistence: { storageKey: false, restoreOnClient: true } };
+
+    // Restore
+    const stop = syncPersistedLocale(syncCtx);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(syncCtx.locale.lang).toBe('it-IT');
+
+    // Other tabs
+    const sender = new BroadcastChannel('qwik-speak');
+    sender.postMessage({ lang: 'en-US' });
+    sender.close();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(syncCtx.locale.lang).toBe('en-US');
+
+    // Not persisted again
+    expect(cookies).toEqual([]);
+    stop?.();
+  });
+});
@@ -39,6 +39,10 @@ export const ctx: SpeakState = new Proxy({
   translation: translationData,
   config: config,
   translationFn: {
-    loadTranslation$: inlinedQrl(() => { return null; }, 'loadTranslation')
-  }
+    loadTranslation$: inlinedQrl(() => { return null; }, 'loadTranslation'),
+    handleMissingTranslation$: inlinedQrl((key: string) => { return key; }, 'handleMissingTranslation')
+  },
+  status: 'loaded',
+  errors: [],
+  scopes: {}
 }, {});
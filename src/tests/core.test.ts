@@ -1,6 +1,14 @@
-import { test, describe, expect } from 'vitest';
+import { test, describe, expect, vi } from 'vitest';
+import { inlinedQrl, qrl } from '@builder.io/qwik';
 
-import { getValue, transpileParams } from '../library/core';
+import type { SpeakState } from '../library/types';
+import { getValue, invokeQrl, loadTranslations, resolveFunctions, transpileParams } from '../library/core';
+import { ctx } from './config';
+
+const loadTranslation = vi.fn(async (lang: string, asset: string) => {
+  if (asset === 'runtime') throw new Error(`Missing ${asset}`);
+  return { app: { title: `Title ${lang}` } };
+});
 
 describe('core', () => {
   test('getValue', () => {
@@ -13,10 +21,81 @@ describe('core', () => {
     value = getValue('SUBKEY1.BB', { KEY1: 'key1', SUBKEY1: { AA: 'aa' } });
     expect(value).toBeUndefined();
   });
+  test('getValue with ICU messages', () => {
+    const icuCtx = { ...ctx, config: { ...ctx.config, messageFormat: 'icu' as const } };
+    const data = { devs: '{count, plural, one {# developer} other {# developers}}' };
+    let value = getValue('devs', data, { count: 2 }, '.', '@@', icuCtx);
+    expect(value).toBe('2 developers');
+    value = getValue('devs', data, { count: 10000 }, '.', '@@', icuCtx, 'it-IT');
+    expect(value).toBe('10.000 developers');
+    value = getValue('greeting@@Hi! I am {name}', data, { name: 'Qwik Speak' }, '.', '@@', icuCtx);
+    expect(value).toBe('Hi! I am Qwik Speak');
+  });
+  test('getValue with linked messages', () => {
+    const data = {
+      app: { brand: 'Qwik Speak', title: '@:app.brand.', greeting: 'Hi! I am @:(app.brand), {{name}}' },
+      broken: 'Hi @:app.missing',
+      loop: { a: 'A @:loop.b', b: 'B @:loop.a' }
+    };
+    expect(getValue('app.title', data)).toBe('Qwik Speak.');
+    expect(getValue('app.greeting', data, { name: 'Qwik' })).toBe('Hi! I am Qwik Speak, Qwik');
+    expect(getValue('broken', data)).toBe('Hi @:app.missing');
+    expect(getValue('loop.a', data)).toBe('A B @:loop.a');
+  });
   test('handleParams', () => {
     let value = transpileParams('Test {{param}}', { param: 'params' });
     expect(value).toBe('Test params');
     value = transpileParams('Test {{ number }} {{param}}', { number: 2, param: 'params' });
     expect(value).toBe('Test 2 params');
   });
+  test('loadTranslations with failed assets', async () => {
+    const loadCtx: SpeakState = {
+      ...ctx,
+      translation: { 'en-US': {}, 'it-IT': {} },
+      config: {
+        ...ctx.config,
+        assets: ['app', 'runtime'],
+        translationCache: { scope: 'none' },
+        retry: { retries: 2, delay: 0 }
+      },
+      translationFn: { ...ctx.translationFn, loadTranslation$: inlinedQrl(loadTranslation, 'core_loadTranslation') },
+      status: 'loading',
+      errors: []
+    };
+
+    await loadTranslations(loadCtx);
+    expect(loadCtx.translation['en-US']).toEqual({ app: { title: 'Title en-US' } });
+    expect(loadTranslation.mock.calls.filter(([, asset]) => asset === 'runtime')).toHaveLength(3);
+    expect(loadCtx.status).toBe('error');
+    expect(loadCtx.errors).toEqual([{ lang: 'en-US', asset: 'runtime', message: 'Missing runtime' }]);
+
+    await loadTranslations(loadCtx, undefined, undefined, ['app']);
+    expect(loadCtx.status).toBe('error');
+    await loadTranslations(loadCtx, undefined, undefined, ['app']);
+    expect(loadCtx.errors).toHaveLength(1);
+  });
+  test('invokeQrl', async () => {
+    const prefix$ = inlinedQrl((value: string) => `Qwik ${value}`, 'invokeQrlPrefixStub');
+    await prefix$.resolve();
+    expect(invokeQrl(prefix$, 'Speak')).toBe('Qwik Speak');
+
+    const consoleError = vi.spyOn(console, 'error');
+    const async$ = inlinedQrl(async () => { throw new Error('Async'); }, 'invokeQrlAsyncStub');
+    await async$.resolve();
+    expect(invokeQrl(async$)).toBeUndefined();
+
+    // Not resolved yet
+    const lazy$ = qrl<(value: string) => string>(() => Promise.resolve({ lazyStub: (value: string) => value }), 'lazyStub');
+    expect(invokeQrl(lazy$, 'Speak')).toBeUndefined();
+    await new Promise(resolve => setTimeout(resolve));
+    expect(invokeQrl(lazy$, 'Speak')).toBe('Speak');
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+  test('resolveFunctions', async () => {
+    const missing$ = qrl<(key: string) => string>(() => Promise.resolve({ missingStub: (key: string) => `!${key}` }), 'missingStub');
+    const functionsCtx = { ...ctx, translationFn: { ...ctx.translationFn, handleMissingTranslation$: missing$ } };
+    await resolveFunctions(functionsCtx);
+    expect(invokeQrl(functionsCtx.translationFn.handleMissingTranslation$, 'key')).toBe('!key');
+  });
 });
@@ -0,0 +1,132 @@
+import { component$, inlinedQrl } from '@builder.io/qwik';
+import { renderToString } from '@builder.io/qwik/server';
+import { test, describe, expect } from 'vitest';
+
+import type { SpeakConfig, Translation } from '../library/types';
+import { $translate as t } from '../library/translate';
+import { $plural as p } from '../library/plural';
+import { loadTranslations } from '../library/core';
+import { createInspectorReport, getKeyUsages, resetKeyUsages, saveKeyUsages } from '../library/debug';
+import { SpeakInspector } from '../library/speak-inspector-component';
+import { QwikSpeakProvider } from '../library/qwik-speak-component';
+import { createSpeakTestContext } from '../testing/test-context';
+import { renderWithSpeak } from '../testing/render';
+import { ctx } from './config';
+
+const config: SpeakConfig = { ...ctx.config, assets: ['app', 'home'] };
+
+const translations: Record<string, Translation> = {
+  'en-US': {
+    app: { app: { title: 'Qwik Speak', devs: { one: 'One developer', other: '{{value}} developers' } } },
+    home: { home: { greeting: 'Hi! I am {{name}}' } }
+  },
+  'it-IT': {
+    app: { app: { title: 'Qwik Speak' } }
+  }
+};
+
+const loadTranslation = (lang: string, asset: string): Translation | null => translations[lang]?.[asset] ?? null;
+
+describe('debug', () => {
+  test('values', async () => {
+    const debugCtx = createSpeakTestContext({ ...config, debug: 'values' }, translations, config.defaultLocale);
+    await loadTranslations(debugCtx);
+    expect(debugCtx.keyAssets?.['en-US']).toEqual({
+      'app.title': 'app', 'app.devs.one': 'app', 'app.devs.other': 'app', 'home.greeting': 'home'
+    });
+    expect(t('app.title', {}, debugCtx)).toBe('Qwik Speak');
+    expect(t('app.subtitle@@Default', {}, debugCtx)).toBe('Default');
+    expect(t('app.missing', {}, debugCtx)).toBe('app.missing');
+    expect(getKeyUsages(debugCtx)).toEqual([
+      { key: 'app.title', lang: 'en-US', source: 'asset', asset: 'app' },
+      { key: 'app.subtitle', lang: 'en-US', source: 'default', asset: undefined },
+      { key: 'app.missing', lang: 'en-US', source: 'missing', asset: undefined }
+    ]);
+  });
+  test('saveKeyUsages and resetKeyUsages', () => {
+    const debugCtx = createSpeakTestContext({ ...config, debug: 'values' }, translations, config.defaultLocale);
+    t('app.title', {}, debugCtx);
+    // Collected outside the state
+    expect(debugCtx.keyUsages).toBeUndefined();
+    saveKeyUsages(debugCtx);
+    expect(Object.keys(debugCtx.keyUsages ?? {})).toEqual(['en-US|app.title']);
+
+    t('app.subtitle@@Default', {}, debugCtx);
+    expect(getKeyUsages(debugCtx).map(usage => usage.key)).toEqual(['app.title', 'app.subtitle']);
+
+    resetKeyUsages(debugCtx);
+    expect(getKeyUsages(debugCtx)).toEqual([]);
+    expect(debugCtx.keyUsages).toEqual({});
+  });
+  test('keys', async () => {
+    const debugCtx = createSpeakTestContext({ ...config, debug: 'keys' }, translations, config.defaultLocale);
+    expect(t('app.title', {}, debugCtx)).toBe('app.title');
+    expect(t('app.subtitle@@Default', {}, debugCtx)).toBe('app.subtitle');
+    expect(p(2, 'app.devs', {}, debugCtx)).toBe('app.devs.other');
+  });
+  test('decorate', async () => {
+    const debugCtx = createSpeakTestContext({ ...config, debug: 'decorate' }, translations, config.defaultLocale);
+    expect(t('app.title', {}, debugCtx)).toBe('Qwik Speak [app.title]');
+    await loadTranslations(debugCtx);
+    expect(t('app.title', {}, debugCtx)).toBe('Qwik Speak [app.title | app]');
+    expect(t('home.greeting', { name: 'Qwik' }, debugCtx)).toBe('Hi! I am Qwik [home.greeting | home]');
+    expect(t('app.subtitle@@Default', {}, debugCtx)).toBe('Default [app.subtitle | default]');
+    expect(t('app.missing', {}, debugCtx)).toBe('app.missing');
+  });
+  test('createInspectorReport', async () => {
+    const debugCtx = createSpeakTestContext({ ...config, debug: 'values' }, translations, config.defaultLocale);
+    t(['app.title', 'home.greeting', 'app.subtitle@@Default'], {}, debugCtx);
+    t('app.title', {}, debugCtx);
+    const report = createInspectorReport(debugCtx, debugCtx.translation);
+    expect(report.keys.map(usage => usage.key)).toEqual(['app.title', 'home.greeting', 'app.subtitle']);
+    expect(report.defaults).toEqual(['app.subtitle']);
+    expect(report.missing).toEqual({ 'it-IT': ['home.greeting', 'app.subtitle'], 'en-US': ['app.subtitle'] });
+  });
+  test('SpeakInspector', async () => {
+    const TestComponent = component$(() => {
+      return (
+        <div>
+          <h1>{t('app.title')}</h1>
+          <p>{t('home.greeting@@Hi!')}</p>
+          <SpeakInspector open />
+        </div>
+      );
+    });
+
+    const { screen, userEvent } = await renderWithSpeak(<TestComponent />, { ...config, debug: 'decorate' }, {
+      ...translations,
+      'en-US': { app: translations['en-US'].app }
+    });
+    expect(screen.querySelector('h1')?.textContent).toBe('Qwik Speak [app.title | app]');
+    expect(screen.querySelector('p')?.textContent).toBe('Hi! [home.greeting | default]');
+
+    // The report is created on client, after the rendering
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await userEvent('.speak-inspector summary', 'click');
+
+    const inspector = screen.querySelector('.speak-inspector');
+    expect(inspector?.textContent).toContain('Qwik Speak: 2 keys');
+    expect(inspector?.textContent).toContain('Default values: 1');
+    expect(inspector?.textContent).toContain('Missing in it-IT: 1');
+    expect(inspector?.textContent).toContain('Missing in en-US: 1');
+  });
+  test('SpeakInspector without debug mode', async () => {
+    const { screen } = await renderWithSpeak(<SpeakInspector />, config, translations);
+    expect(screen.outerHTML).not.toContain('speak-inspector');
+  });
+  test('key usages of the server render', async () => {
+    const ServerComponent = component$(() => {
+      return <h1>{t('app.title')}</h1>;
+    });
+    const translationFn = { loadTranslation$: inlinedQrl(loadTranslation, 'debug_loadTranslation') };
+    const { html } = await renderToString(
+      <QwikSpeakProvider config={{ ...config, debug: 'values' }} translationFn={translationFn}>
+        <SpeakInspector />
+        <ServerComponent />
+      </QwikSpeakProvider>,
+      { containerTagName: 'div' }
+    );
+    // Added to the state when it has been paused for serialization
+    expect(html).toContain('en-US|app.title');
+  });
+});
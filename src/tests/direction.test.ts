@@ -0,0 +1,14 @@
+import { test, describe, expect } from 'vitest';
+
+import { getDirection } from '../library/direction';
+
+describe('getDirection function', () => {
+  test('direction', () => {
+    expect(getDirection({ lang: 'en-US' })).toBe('ltr');
+    expect(getDirection({ lang: 'ar-EG' })).toBe('rtl');
+    expect(getDirection({ lang: 'he' })).toBe('rtl');
+    expect(getDirection({ lang: 'pa-Arab-PK' })).toBe('rtl');
+    expect(getDirection({ lang: 'az-Latn-AZ' })).toBe('ltr');
+    expect(getDirection({ lang: 'ar-EG', dir: 'ltr' })).toBe('ltr');
+  });
+});
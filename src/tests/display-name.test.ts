@@ -0,0 +1,14 @@
+import { test, describe, expect } from 'vitest';
+
+import { displayName as dn } from '../library/display-name';
+import { ctx } from './config';
+
+describe('displayName function', () => {
+  test('format', () => {
+    const locale = ctx.locale;
+    expect(dn('it-IT', {}, locale)).toBe('Italian (Italy)');
+    expect(dn('it-IT', { type: 'language', languageDisplay: 'standard' }, locale, 'it-IT')).toBe('italiano (Italia)');
+    expect(dn('IT', { type: 'region' }, locale)).toBe('Italy');
+    expect(dn('EUR', { type: 'currency' }, locale)).toBe('Euro');
+  });
+});
@@ -0,0 +1,34 @@
+import { test, describe, expect } from 'vitest';
+import { inlinedQrl } from '@builder.io/qwik';
+
+import { escapeHtml, escapeParam, trusted } from '../library/escape';
+import { transpileParams } from '../library/core';
+import { formatMessage } from '../library/message-format';
+import { ctx } from './config';
+
+describe('escape', () => {
+  const htmlCtx = { ...ctx, config: { ...ctx.config, escape: 'html' as const } };
+
+  test('escapeHtml', () => {
+    expect(escapeHtml('<b title="a & b">It\'s</b>')).toBe('&lt;b title=&quot;a &amp; b&quot;&gt;It&#39;s&lt;/b&gt;');
+  });
+  test('escapeParam', async () => {
+    expect(escapeParam('<b>', ctx)).toBe('<b>');
+    expect(escapeParam('<b>', htmlCtx)).toBe('&lt;b&gt;');
+    expect(escapeParam(trusted('<b>'), htmlCtx)).toBe('<b>');
+
+    const escape = inlinedQrl((value: string) => value.replace(/[<>]/g, ''), 'escapeStub');
+    await escape.resolve();
+    expect(escapeParam('<b>', { ...ctx, config: { ...ctx.config, escape } })).toBe('b');
+  });
+  test('transpileParams with escape', () => {
+    const params = { name: '<script>alert(1)</script>', link: trusted('<a href="/">Home</a>') };
+    expect(transpileParams('Hi {{name}}, {{link}}', params, htmlCtx))
+      .toBe('Hi &lt;script&gt;alert(1)&lt;/script&gt;, <a href="/">Home</a>');
+    expect(transpileParams('Hi {{name}}', params, ctx)).toBe('Hi <script>alert(1)</script>');
+  });
+  test('formatMessage with escape', () => {
+    const value = formatMessage('Hi {name}', { name: '<b>' }, ctx.locale, undefined, value => escapeParam(value, htmlCtx));
+    expect(value).toBe('Hi &lt;b&gt;');
+  });
+});
@@ -0,0 +1,14 @@
+import { test, describe, expect } from 'vitest';
+
+import { formatList as fl } from '../library/format-list';
+import { ctx } from './config';
+
+describe('formatList function', () => {
+  test('format', () => {
+    const locale = ctx.locale;
+    const value = ['Qwik', 'Qwik City', 'Qwik Speak'];
+    expect(fl(value, {}, locale)).toBe('Qwik, Qwik City, and Qwik Speak');
+    expect(fl(value, { type: 'disjunction' }, locale)).toBe('Qwik, Qwik City, or Qwik Speak');
+    expect(fl(value, {}, locale, 'it-IT')).toBe('Qwik, Qwik City e Qwik Speak');
+  });
+});
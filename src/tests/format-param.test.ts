@@ -0,0 +1,45 @@
+import { test, describe, expect } from 'vitest';
+import { inlinedQrl } from '@builder.io/qwik';
+
+import { formatParam } from '../library/format-param';
+import { transpileParams } from '../library/core';
+import { ctx } from './config';
+
+describe('formatParam function', () => {
+  test('built-in formats', () => {
+    const locale = ctx.locale;
+    expect(formatParam(1000000, 'number', undefined, locale)).toBe('1,000,000');
+    expect(formatParam(0.5, 'number', 'percent', locale)).toBe('50%');
+    expect(formatParam(1000000, 'number', undefined, locale, 'it-IT')).toBe('1.000.000');
+    expect(formatParam(1000000, 'currency', undefined, locale)).toBe('$1,000,000.00');
+    expect(formatParam(1000000, 'currency', 'EUR', locale)).toBe('€1,000,000.00');
+    expect(formatParam(10, 'unit', 'length', locale)).toBe('10 mi');
+    expect(formatParam(Date.UTC(2022, 1, 20, 12), 'date', 'long', locale)).toBe('February 20, 2022');
+    expect(formatParam(-1, 'relative', 'second', locale)).toBe('1 second ago');
+    expect(formatParam(1, 'unknown', undefined, locale)).toBeUndefined();
+  });
+  test('custom formatters', async () => {
+    const upper$ = inlinedQrl((value: string) => value.toUpperCase(), 'upperFormatterStub');
+    await upper$.resolve();
+    expect(formatParam('speak', 'upper', undefined, ctx.locale, undefined, { upper: upper$ })).toBe('SPEAK');
+    // A formatter that throws doesn't format the value
+    expect(formatParam(null, 'upper', undefined, ctx.locale, undefined, { upper: upper$ })).toBeUndefined();
+  });
+  test('transpileParams with formats', () => {
+    let value = transpileParams('{{ value, number }} software developers', { value: 1000000 }, ctx);
+    expect(value).toBe('1,000,000 software developers');
+    value = transpileParams('Price: {{price, currency:EUR}}', { price: 10 }, ctx, 'it-IT');
+    expect(value).toBe(`Price: ${new Intl.NumberFormat('it-IT', { style: 'currency', currency: 'EUR' }).format(10)}`);
+    value = transpileParams('{{ value, unknown }}', { value: 1000000 }, ctx);
+    expect(value).toBe('1000000');
+  });
+  test('values that cannot be formatted', () => {
+    const locale = { lang: 'en-US' };
+    expect(formatParam(10, 'currency', undefined, locale)).toBeUndefined();
+    expect(formatParam('invalid', 'date', undefined, locale)).toBeUndefined();
+    expect(formatParam(10, 'unit', 'invalid', locale)).toBeUndefined();
+    const noCurrencyCtx = { ...ctx, locale };
+    const value = transpileParams('Price: {{ price, currency }}', { price: 10 }, noCurrencyCtx);
+    expect(value).toBe('Price: 10');
+  });
+});
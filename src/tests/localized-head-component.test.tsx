@@ -0,0 +1,101 @@
+import { component$, Slot, useTask$ } from '@builder.io/qwik';
+import { QwikCityMockProvider, useDocumentHead } from '@builder.io/qwik-city';
+import type { DocumentMeta } from '@builder.io/qwik-city';
+import { test, describe, expect } from 'vitest';
+
+import { LocalizedHead } from '../routing/localized-head-component';
+import { renderWithSpeak } from '../testing/render';
+import { ctx } from './config';
+
+const config = { ...ctx.config, assets: ['app'] };
+
+const translations = {
+  'en-US': {
+    app: {
+      app: {
+        title: 'Qwik Speak',
+        description: 'Translate {{name}} apps',
+        keywords: 'i18n'
+      }
+    }
+  },
+  'it-IT': {
+    app: {
+      app: {
+        title: 'Qwik Speak',
+        description: 'Traduci le app {{name}}',
+        keywords: 'i18n'
+      }
+    }
+  }
+};
+
+interface MockHeadProps {
+  title: string;
+  meta: DocumentMeta[];
+}
+
+// Sets the document head, as Qwik City does from the head export of the routes
+const MockHead = component$((props: MockHeadProps) => {
+  const head = useDocumentHead();
+  useTask$(() => {
+    Object.assign(head, { title: props.title, meta: props.meta });
+  });
+  return <Slot />;
+});
+
+const meta: DocumentMeta[] = [
+  { name: 'description', content: 'app.description' },
+  { property: 'og:title', content: 'app.title' },
+  { name: 'keywords', content: 'app.keywords' }
+];
+
+describe('LocalizedHead component', () => {
+  test('render', async () => {
+    const { screen } = await renderWithSpeak(
+      <QwikCityMockProvider url="http://localhost/it-IT/page/">
+        <MockHead title="app.title" meta={meta}>
+          <LocalizedHead params={{ name: 'Qwik' }} />
+        </MockHead>
+      </QwikCityMockProvider>,
+      config,
+      translations,
+      config.supportedLocales[0]
+    );
+
+    expect(screen.querySelector('title')?.textContent).toBe('Qwik Speak');
+    expect(screen.querySelector('meta[name="description"]')?.getAttribute('content')).toBe('Traduci le app Qwik');
+    expect(screen.querySelector('meta[property="og:title"]')?.getAttribute('content')).toBe('Qwik Speak');
+    // Not in translatedMeta
+    expect(screen.querySelector('meta[name="keywords"]')?.getAttribute('content')).toBe('app.keywords');
+
+    const alternates = [...screen.querySelectorAll('link[rel="alternate"]')]
+      .map(link => [link.getAttribute('hreflang'), link.getAttribute('href')]);
+    expect(alternates).toEqual([
+      ['it-IT', 'http://localhost/it-IT/page/'],
+      ['en-US', 'http://localhost/page/'],
+      ['x-default', 'http://localhost/page/']
+    ]);
+
+    expect(screen.querySelector('meta[property="og:locale"]')?.getAttribute('content')).toBe('it_IT');
+    const ogAlternates = [...screen.querySelectorAll('meta[property="og:locale:alternate"]')]
+      .map(value => value.getAttribute('content'));
+    expect(ogAlternates).toEqual(['en_US']);
+  });
+  test('translatedMeta', async () => {
+    const { screen } = await renderWithSpeak(
+      <QwikCityMockProvider url="http://localhost/">
+        <MockHead title="app.title" meta={meta}>
+          <LocalizedHead translatedMeta={['keywords']} />
+        </MockHead>
+      </QwikCityMockProvider>,
+      config,
+      translations
+    );
+
+    expect(screen.querySelector('meta[name="description"]')?.getAttribute('content')).toBe('app.description');
+    expect(screen.querySelector('meta[property="og:title"]')?.getAttribute('content')).toBe('app.title');
+    expect(screen.querySelector('meta[name="keywords"]')?.getAttribute('content')).toBe('i18n');
+    expect(screen.querySelector('meta[property="og:locale"]')?.getAttribute('content')).toBe('en_US');
+  });
+});
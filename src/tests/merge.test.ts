@@ -0,0 +1,13 @@
+import { test, describe, expect } from 'vitest';
+
+import { deepMerge } from '../library/merge';
+
+describe('merge', () => {
+  test('deepMerge', () => {
+    const source = { app: { nav: { home: 'Tenant home' } } };
+    const target = deepMerge({ app: { title: 'Title', nav: { home: 'Home', page: 'Page' } } }, source);
+    expect(target).toEqual({ app: { title: 'Title', nav: { home: 'Tenant home', page: 'Page' } } });
+    target.app.nav.home = 'Home';
+    expect(source.app.nav.home).toBe('Tenant home');
+  });
+});
@@ -0,0 +1,65 @@
+import { test, describe, expect } from 'vitest';
+
+import { formatMessage as fm } from '../library/message-format';
+import { ctx } from './config';
+
+describe('formatMessage function', () => {
+  test('simple argument', () => {
+    const locale = ctx.locale;
+    expect(fm('Hi! I am {name}', { name: 'Qwik Speak' }, locale)).toBe('Hi! I am Qwik Speak');
+    expect(fm('Hi! I am {name}', {}, locale)).toBe('Hi! I am {name}');
+  });
+  test('plural', () => {
+    const locale = ctx.locale;
+    const message = '{count, plural, =0 {No developers} one {# developer} other {# developers}}';
+    expect(fm(message, { count: 0 }, locale)).toBe('No developers');
+    expect(fm(message, { count: 1 }, locale)).toBe('1 developer');
+    expect(fm(message, { count: 1000 }, locale)).toBe('1,000 developers');
+    expect(fm(message, { count: 10000 }, locale, 'it-IT')).toBe('10.000 developers');
+  });
+  test('plural with offset', () => {
+    const locale = ctx.locale;
+    const message = '{count, plural, offset:1 =0 {Nobody} =1 {You} one {You and # other} other {You and # others}}';
+    expect(fm(message, { count: 1 }, locale)).toBe('You');
+    expect(fm(message, { count: 2 }, locale)).toBe('You and 1 other');
+    expect(fm(message, { count: 3 }, locale)).toBe('You and 2 others');
+  });
+  test('selectordinal', () => {
+    const locale = ctx.locale;
+    const message = '{place, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}';
+    expect(fm(message, { place: 1 }, locale)).toBe('1st');
+    expect(fm(message, { place: 22 }, locale)).toBe('22nd');
+    expect(fm(message, { place: 13 }, locale)).toBe('13th');
+  });
+  test('select', () => {
+    const locale = ctx.locale;
+    const message = '{gender, select, female {She} male {He} other {They}} replied';
+    expect(fm(message, { gender: 'female' }, locale)).toBe('She replied');
+    expect(fm(message, { gender: 'unknown' }, locale)).toBe('They replied');
+  });
+  test('number & date', () => {
+    const locale = ctx.locale;
+    expect(fm('{value, number}', { value: 1234.5 }, locale)).toBe('1,234.5');
+    expect(fm('{value, number, currency}', { value: 1234.5 }, locale)).toBe('$1,234.50');
+    expect(fm('{value, number, percent}', { value: 0.5 }, locale)).toBe('50%');
+    expect(fm('{value, date, full}', { value: '2022-07-19T16:30:00Z' }, locale)).toBe('Tuesday, July 19, 2022');
+    expect(fm('{value, time, short}', { value: '2022-07-19T16:30:00Z' }, locale)).toBe('9:30 AM');
+  });
+  test('values that cannot be formatted', () => {
+    const locale = { lang: 'en-US' };
+    expect(fm('Total: {value, number, currency}', { value: 10 }, locale)).toBe('Total: 10');
+    expect(fm('{value, date}', { value: 'invalid' }, locale)).toBe('invalid');
+    expect(fm('{value, time}', { value: 'invalid' }, locale)).toBe('invalid');
+    expect(fm('{value, number, currency}', { value: '<b>' }, locale, undefined, value => `${value}`.replace('<', '&lt;')))
+      .toBe('&lt;b>');
+  });
+  test('apostrophes', () => {
+    const locale = ctx.locale;
+    expect(fm("I'm {name}", { name: 'Qwik Speak' }, locale)).toBe("I'm Qwik Speak");
+    expect(fm("It''s '{name}'", { name: 'Qwik Speak' }, locale)).toBe("It's {name}");
+  });
+  test('invalid message', () => {
+    const locale = ctx.locale;
+    expect(fm('{count, plural, one {#}', { count: 1 }, locale)).toBe('{count, plural, one {#}');
+  });
+});
@@ -0,0 +1,65 @@
+import { test, describe, expect, vi, afterEach } from 'vitest';
+
+import type { SpeakConfig } from '../library/types';
+import { getPersistedLang, persistLang } from '../library/persistence';
+import { ctx } from './config';
+
+const stubBrowser = () => {
+  const cookies = new Map<string, string>();
+  const document = {
+    get cookie() {
+      return [...cookies].map(([name, value]) => `${name}=${value}`).join('; ');
+    },
+    set cookie(value: string) {
+      const [name, ...rest] = value.split(';')[0].split('=');
+      cookies.set(name, rest.join('='));
+    }
+  };
+  const storage = new Map<string, string>();
+  const localStorage = {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value)
+  };
+  vi.stubGlobal('document', document);
+  vi.stubGlobal('localStorage', localStorage);
+  return { cookies, storage };
+};
+
+describe('persistence', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('disabled', () => {
+    const { cookies, storage } = stubBrowser();
+    persistLang('it-IT', ctx.config);
+    expect(cookies.size).toBe(0);
+    expect(storage.size).toBe(0);
+    expect(getPersistedLang(ctx.config)).toBeUndefined();
+  });
+  test('persistLang', async () => {
+    const { cookies, storage } = stubBrowser();
+    const config: SpeakConfig = { ...ctx.config, persistence: {} };
+
+    const receiver = new BroadcastChannel('qwik-speak');
+    const message = new Promise(resolve => receiver.onmessage = (event: MessageEvent) => resolve(event.data));
+
+    persistLang('it-IT', config);
+    expect(cookies.get('locale')).toBe('it-IT');
+    expect(storage.get('locale')).toBe('it-IT');
+    expect(await message).toEqual({ lang: 'it-IT' });
+    receiver.close();
+  });
+  test('getPersistedLang', () => {
+    const { cookies, storage } = stubBrowser();
+    const config: SpeakConfig = { ...ctx.config, persistence: { cookie: 'lang', storageKey: false, channel: false } };
+
+    persistLang('it-IT', config);
+    expect(cookies.get('lang')).toBe('it-IT');
+    expect(storage.size).toBe(0);
+    expect(getPersistedLang(config)).toBe('it-IT');
+
+    storage.set('locale', 'en-US');
+    expect(getPersistedLang({ ...config, persistence: { cookie: 'lang' } })).toBe('en-US');
+  });
+});
@@ -1,6 +1,7 @@
 import { test, describe, expect } from 'vitest';
 
 import { $plural as p } from '../library/plural';
+import { createSpeakTestContext } from '../testing/test-context';
 import { ctx } from './config';
 
 describe('plural function', () => {
@@ -12,4 +13,25 @@ describe('plural function', () => {
     const value = p(2, '', {}, ctx);
     expect(value).toBe('2 software developers');
   });
+  test('fallback chain', () => {
+    const fallbackCtx = { ...ctx, config: { ...ctx.config, fallbackLangs: {} } };
+    const value = p(2, '', {}, fallbackCtx, 'it-IT');
+    expect(value).toBe('2 software developers');
+  });
+  test('multi-hop fallback chain', () => {
+    const chLocale = { lang: 'it-CH', currency: 'CHF', timeZone: 'Europe/Zurich' };
+    const chainCtx = createSpeakTestContext({
+      ...ctx.config,
+      supportedLocales: [chLocale, ...ctx.config.supportedLocales],
+      fallbackLangs: { 'it-CH': ['it-IT'] }
+    }, {
+      'it-IT': { app: { app: { devs: { one: 'Uno sviluppatore', other: '{{value}} sviluppatori' } } } },
+      'en-US': {
+        app: { app: { devs: { one: 'One developer', other: '{{value}} developers' } } },
+        home: { home: { one: 'Home' } }
+      }
+    }, chLocale);
+    expect(p(2, 'app.devs', {}, chainCtx)).toBe('2 sviluppatori');
+    expect(p(1, 'home', {}, chainCtx)).toBe('Home');
+  });
 });
@@ -0,0 +1,24 @@
+/**
+ * Values pseudo-localized by the runtime pseudo-locale and by the inline plugin:
+ * [value, options, messageFormat, expected]
+ */
+export const pseudoFixtures: [
+  string,
+  { accents?: boolean, expansion?: number, brackets?: [string, string] },
+  'default' | 'icu',
+  string
+][] = [
+  ['Qwik Speak', {}, 'default', '[Ǫŵîķ Šþéåķ~~~]'],
+  ['Hi {{ name }}, read the <b>docs</b>', { expansion: 0 }, 'default', '[Ĥî {{ name }}, ŕéåð ţĥé <b>ðöçš</b>]'],
+  ['Qwik', { accents: false, expansion: 0.5, brackets: ['⟦', '⟧'] }, 'default', '⟦Qwik~~⟧'],
+  ['Price: {{ price, currency }}', { expansion: 0 }, 'default', '[Þŕîçé: {{ price, currency }}]'],
+  ['<br/>', {}, 'default', '[<br/>]'],
+  ['', {}, 'default', '[]'],
+  [
+    '{count, plural, one {# item} other {# items}} for {name}',
+    { expansion: 0 },
+    'icu',
+    '[{count, plural, one {# îţéɱ} other {# îţéɱš}} ƒöŕ {name}]'
+  ],
+  ['{gender, select, male {He} other {They}}', { expansion: 0 }, 'icu', '[{gender, select, male {Ĥé} other {Ţĥéý}}]']
+];
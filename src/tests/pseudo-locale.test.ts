@@ -0,0 +1,70 @@
+import { test, describe, expect } from 'vitest';
+
+import type { SpeakConfig, SpeakLocale } from '../library/types';
+import { pseudoLocalize } from '../library/pseudo-locale';
+import { $translate as t } from '../library/translate';
+import { $plural as p } from '../library/plural';
+import { formatNumber as fn } from '../library/format-number';
+import { getFallbackLangs } from '../library/core';
+import { createSpeakTestContext } from '../testing/test-context';
+import { ctx } from './config';
+import { pseudoFixtures } from './pseudo-fixtures';
+
+const pseudoLocale: SpeakLocale = { lang: 'en-XA', extension: 'en-US', currency: 'USD' };
+
+const config: SpeakConfig = {
+  ...ctx.config,
+  supportedLocales: [...ctx.config.supportedLocales, pseudoLocale],
+  pseudoLocale: { lang: 'en-XA' }
+};
+
+const translations = {
+  'en-US': {
+    app: {
+      app: {
+        title: 'Qwik Speak',
+        greeting: 'Hi! I am {{ name }}, @:app.title',
+        total: 'Total: {{ value, currency }}',
+        devs: { one: 'One developer', other: '{{value}} developers' }
+      }
+    }
+  }
+};
+
+describe('pseudo-locale', () => {
+  test('pseudoLocalize', () => {
+    expect(pseudoLocalize('Qwik Speak', {})).toBe('[Ǫŵîķ Šþéåķ~~~]');
+    expect(pseudoLocalize('Hi {{ name }}, read the <b>docs</b>', { expansion: 0 }))
+      .toBe('[Ĥî {{ name }}, ŕéåð ţĥé <b>ðöçš</b>]');
+    expect(pseudoLocalize('Qwik', { accents: false, expansion: 0.5, brackets: ['⟦', '⟧'] })).toBe('⟦Qwik~~⟧');
+  });
+  test('pseudoLocalize fixtures', () => {
+    for (const [value, options, messageFormat, expected] of pseudoFixtures) {
+      expect(pseudoLocalize(value, options, messageFormat)).toBe(expected);
+    }
+  });
+  test('pseudoLocalize ICU', () => {
+    expect(pseudoLocalize('{count, plural, one {# item} other {# items}} for {name}', { expansion: 0 }, 'icu'))
+      .toBe('[{count, plural, one {# îţéɱ} other {# îţéɱš}} ƒöŕ {name}]');
+  });
+  test('getFallbackLangs', () => {
+    expect(getFallbackLangs('en-XA', config)).toEqual(['en-US']);
+    expect(getFallbackLangs('en-XA', { ...config, fallbackLangs: { 'it-IT': ['en-US'] }, pseudoLocale: {
+      lang: 'en-XA', sourceLang: 'it-IT'
+    } })).toEqual(['it-IT', 'en-US']);
+  });
+  test('translate', () => {
+    const pseudoCtx = createSpeakTestContext(config, translations, pseudoLocale);
+    expect(t('app.title', {}, pseudoCtx)).toBe('[Ǫŵîķ Šþéåķ~~~]');
+    expect(t('app.greeting', { name: 'Qwik' }, pseudoCtx)).toBe('[Ĥî! Î åɱ Qwik, Ǫŵîķ Šþéåķ~~~~~]');
+    expect(t('app.missing@@Default', {}, pseudoCtx)).toBe('[Ðéƒåûļţ~~~]');
+    expect(t('app.title', {}, pseudoCtx, 'en-US')).toBe('Qwik Speak');
+  });
+  test('plural and formatting functions', () => {
+    const pseudoCtx = createSpeakTestContext(config, translations, pseudoLocale);
+    expect(p(1, 'app.devs', {}, pseudoCtx)).toBe('[Öñé ðéṽéļöþéŕ~~~~]');
+    expect(p(2, 'app.devs', {}, pseudoCtx)).toBe('[2 ðéṽéļöþéŕš~~~]');
+    expect(t('app.total', { value: 1000 }, pseudoCtx)).toBe('[Ţöţåļ: $1,000.00~~]');
+    expect(fn(1000, { style: 'currency' }, pseudoLocale)).toBe('$1,000.00');
+  });
+});
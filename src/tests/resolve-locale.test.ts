@@ -0,0 +1,96 @@
+import { inlinedQrl } from '@builder.io/qwik';
+import type { RequestEvent } from '@builder.io/qwik-city';
+import type { Cookie } from '@builder.io/qwik-city/middleware/request-handler';
+import { test, describe, expect } from 'vitest';
+
+import { matchLocale, negotiateLocale, parseAcceptLanguage } from '../library/resolve-locale';
+import { localeHandler } from '../routing/locale-handler';
+import { ctx } from './config';
+
+const mockRequestEvent = (
+  params: Record<string, string>,
+  cookies: Record<string, string>,
+  acceptLanguage?: string,
+  url = 'http://localhost/'
+): Partial<RequestEvent> & Pick<RequestEvent, 'locale'> => {
+  let lang = '';
+  const cookie: Partial<Cookie> = {
+    get: (name: string) => cookies[name] ?
+      { value: cookies[name], json: () => JSON.parse(cookies[name]), number: () => +cookies[name] } :
+      null
+  };
+  return {
+    url: new URL(url),
+    params,
+    cookie: cookie as Cookie,
+    request: new Request(url, { headers: acceptLanguage ? { 'accept-language': acceptLanguage } : {} }),
+    locale: (value?: string) => lang = value ?? lang
+  };
+};
+
+describe('resolveLocale', () => {
+  test('matchLocale', () => {
+    const { supportedLocales } = ctx.config;
+    expect(matchLocale('it-IT', supportedLocales)?.lang).toBe('it-IT');
+    expect(matchLocale('it', supportedLocales)?.lang).toBe('it-IT');
+    expect(matchLocale('it-CH', supportedLocales)?.lang).toBe('it-IT');
+    expect(matchLocale('en-us', supportedLocales)?.lang).toBe('en-US');
+    expect(matchLocale('fr-FR', supportedLocales)).toBeUndefined();
+  });
+  test('parseAcceptLanguage', () => {
+    expect(parseAcceptLanguage('en;q=0.8, it-CH, *;q=0.5, fr;q=0, it;q=0.9')).toEqual(['it-CH', 'it', 'en']);
+  });
+  test('negotiateLocale', () => {
+    const { supportedLocales } = ctx.config;
+    expect(negotiateLocale('fr-FR, it-CH;q=0.9, en-US;q=0.8', supportedLocales)?.lang).toBe('it-IT');
+    expect(negotiateLocale('fr-FR', supportedLocales)).toBeUndefined();
+  });
+  test('localeHandler', async () => {
+    let requestEvent = mockRequestEvent({ lang: 'it-IT' }, { locale: 'en-US' }, 'en-US');
+    await localeHandler(ctx.config)(requestEvent as RequestEvent);
+    expect(requestEvent.locale()).toBe('it-IT');
+
+    requestEvent = mockRequestEvent({}, { locale: 'it' }, 'en-US');
+    await localeHandler(ctx.config)(requestEvent as RequestEvent);
+    expect(requestEvent.locale()).toBe('it-IT');
+
+    requestEvent = mockRequestEvent({}, {}, 'it-CH, en;q=0.5');
+    await localeHandler(ctx.config)(requestEvent as RequestEvent);
+    expect(requestEvent.locale()).toBe('it-IT');
+
+    requestEvent = mockRequestEvent({}, {}, 'it-CH');
+    await localeHandler(ctx.config, { strategies: ['param', 'cookie'] })(requestEvent as RequestEvent);
+    expect(requestEvent.locale()).toBe('en-US');
+
+    requestEvent = mockRequestEvent({}, {}, 'en-US');
+    const resolveLocale$ = inlinedQrl(() => 'it', 'resolveLocaleStub');
+    await localeHandler(ctx.config, { resolveLocale$ })(requestEvent as RequestEvent);
+    expect(requestEvent.locale()).toBe('it-IT');
+
+    requestEvent = mockRequestEvent({}, { lang: 'it-IT' }, 'en-US');
+    await localeHandler({ ...ctx.config, persistence: { cookie: 'lang' } })(requestEvent as RequestEvent);
+    expect(requestEvent.locale()).toBe('it-IT');
+
+    const domains = { 'it-IT': { hostnames: ['example.it', 'it.example.com'] } };
+    requestEvent = mockRequestEvent({}, { locale: 'en-US' }, 'en-US', 'https://it.example.com/page/');
+    await localeHandler({ ...ctx.config, domains })(requestEvent as RequestEvent);
+    expect(requestEvent.locale()).toBe('it-IT');
+
+    requestEvent = mockRequestEvent({ lang: 'en-US' }, {}, 'it-IT', 'https://example.it/en-US/page/');
+    await localeHandler({ ...ctx.config, domains })(requestEvent as RequestEvent);
+    expect(requestEvent.locale()).toBe('en-US');
+
+    // Only the first segment of a catch-all param, matched exactly
+    requestEvent = mockRequestEvent({ lang: 'it-IT/page' }, {}, 'en-US');
+    await localeHandler(ctx.config, { strategies: ['param'] })(requestEvent as RequestEvent);
+    expect(requestEvent.locale()).toBe('it-IT');
+
+    requestEvent = mockRequestEvent({ lang: 'it/page' }, {}, 'en-US');
+    await localeHandler(ctx.config, { strategies: ['param'] })(requestEvent as RequestEvent);
+    expect(requestEvent.locale()).toBe('en-US');
+
+    requestEvent = mockRequestEvent({ lang: 'page/it-IT' }, {}, 'en-US');
+    await localeHandler(ctx.config, { strategies: ['param'] })(requestEvent as RequestEvent);
+    expect(requestEvent.locale()).toBe('en-US');
+  });
+});
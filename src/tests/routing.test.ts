@@ -0,0 +1,186 @@
+import type { RequestEvent } from '@builder.io/qwik-city';
+import { test, describe, expect } from 'vitest';
+
+import { getDomainLang } from '../library/domain';
+import {
+  getAlternates,
+  getRoutePath,
+  getUrlLang,
+  localizedRoutesHandler,
+  localizePath,
+  localizeUrl
+} from '../routing/routing';
+import { ctx } from './config';
+
+/**
+ * The redirect is thrown as the status code and the URL
+ */
+const mockRequestEvent = (url: string, params: Record<string, string> = {}): Partial<RequestEvent> => ({
+  url: new URL(url, 'http://localhost'),
+  params,
+  redirect: (statusCode: number, url: string) => ({ statusCode, url })
+});
+
+describe('localizePath function', () => {
+  const { config } = ctx;
+
+  test('add language', () => {
+    expect(localizePath('/', 'it-IT', config)).toBe('/it-IT/');
+    expect(localizePath('/page', 'it-IT', config)).toBe('/it-IT/page');
+    expect(localizePath('/page/', 'it-IT', config)).toBe('/it-IT/page/');
+  });
+  test('replace language', () => {
+    expect(localizePath('/en-US/page/', 'it-IT', config)).toBe('/it-IT/page/');
+    expect(localizePath('/it-it/page', 'it-IT', config)).toBe('/it-IT/page');
+  });
+  test('default locale without prefix', () => {
+    expect(localizePath('/it-IT/', 'en-US', config)).toBe('/');
+    expect(localizePath('/it-IT', 'en-US', config)).toBe('/');
+    expect(localizePath('/it-IT/page/', 'en-US', config)).toBe('/page/');
+    expect(localizePath('/page/', 'en-US', config)).toBe('/page/');
+  });
+  test('search and hash', () => {
+    expect(localizePath('/it-IT/page/?id=1#top', 'en-US', config)).toBe('/page/?id=1#top');
+    expect(localizePath('/?id=/it-IT/', 'it-IT', config)).toBe('/it-IT/?id=/it-IT/');
+  });
+  test('relative and unsupported paths', () => {
+    expect(localizePath('page', 'it-IT', config)).toBe('page');
+    expect(localizePath('https://example.com/page', 'it-IT', config)).toBe('https://example.com/page');
+    expect(localizePath('/fr-FR/page', 'it-IT', config)).toBe('/it-IT/fr-FR/page');
+  });
+});
+
+describe('route translations', () => {
+  const config = {
+    ...ctx.config,
+    routes: {
+      'it-IT': { about: 'chi-siamo', team: 'squadra' },
+      'en-US': { team: 'our-team' }
+    }
+  };
+
+  test('localizePath', () => {
+    expect(localizePath('/about/team/', 'it-IT', config)).toBe('/it-IT/chi-siamo/squadra/');
+    expect(localizePath('/it-IT/chi-siamo/squadra/', 'en-US', config)).toBe('/about/our-team/');
+    expect(localizePath('/about/our-team?id=1', 'it-IT', config)).toBe('/it-IT/chi-siamo/squadra?id=1');
+    expect(localizePath('/constructor/', 'it-IT', config)).toBe('/it-IT/constructor/');
+  });
+  test('getRoutePath', () => {
+    expect(getRoutePath('/it-IT/chi-siamo/squadra/', config)).toBe('/about/team/');
+    expect(getRoutePath('/about/our-team', config)).toBe('/about/team');
+    expect(getRoutePath('/chi-siamo/', config)).toBe('/about/');
+  });
+  test('getAlternates', () => {
+    expect(getAlternates('https://example.com/it-IT/chi-siamo/?id=1#top', config)).toEqual([
+      { hreflang: 'it-IT', href: 'https://example.com/it-IT/chi-siamo/?id=1' },
+      { hreflang: 'en-US', href: 'https://example.com/about/?id=1' },
+      { hreflang: 'x-default', href: 'https://example.com/about/?id=1' }
+    ]);
+  });
+  test('localizedRoutesHandler', () => {
+    const handler = localizedRoutesHandler(config);
+    const handle = (url: string) => {
+      try {
+        handler(mockRequestEvent(url) as RequestEvent);
+      } catch (e) {
+        return e;
+      }
+    };
+
+    expect(handle('/it-IT/about/?id=1')).toEqual({ statusCode: 301, url: '/it-IT/chi-siamo/?id=1' });
+    expect(handle('/chi-siamo/')).toEqual({ statusCode: 301, url: '/about/' });
+    expect(handle('/it-IT/chi-siamo/')).toBeUndefined();
+    expect(handle('/it-IT/about/q-data.json')).toBeUndefined();
+  });
+  test('dynamic segments', () => {
+    // E.g. the route '[...lang]/about/[slug]'
+    expect(localizePath('/about/chi-siamo/', 'it-IT', config, { lang: '', slug: 'chi-siamo' }))
+      .toBe('/it-IT/chi-siamo/chi-siamo/');
+    expect(localizePath('/it-IT/chi-siamo/about/', 'en-US', config, { lang: 'it-IT', slug: 'about' }))
+      .toBe('/about/about/');
+    expect(getRoutePath('/about/chi-siamo/', config, { slug: 'chi-siamo' })).toBe('/about/chi-siamo/');
+    expect(getAlternates('https://example.com/about/chi-siamo/', config, { slug: 'chi-siamo' })[0])
+      .toEqual({ hreflang: 'it-IT', href: 'https://example.com/it-IT/chi-siamo/chi-siamo/' });
+
+    const handler = localizedRoutesHandler(config);
+    const handle = (url: string, params: Record<string, string>) => {
+      try {
+        handler(mockRequestEvent(url, params) as RequestEvent);
+      } catch (e) {
+        return e;
+      }
+    };
+
+    expect(handle('/about/chi-siamo/', { lang: '', slug: 'chi-siamo' })).toBeUndefined();
+    expect(handle('/about/squadra/', { lang: '', slug: 'squadra' })).toBeUndefined();
+    expect(handle('/it-IT/chi-siamo/about/', { lang: 'it-IT', slug: 'about' })).toBeUndefined();
+    expect(handle('/it-IT/about/about/', { lang: 'it-IT', slug: 'about' }))
+      .toEqual({ statusCode: 301, url: '/it-IT/chi-siamo/about/' });
+    // E.g. the route '[...lang]/[...rest]'
+    expect(handle('/it-IT/about/team/', { lang: 'it-IT', rest: 'about/team' })).toBeUndefined();
+  });
+});
+
+describe('domains', () => {
+  const config = {
+    ...ctx.config,
+    routes: {
+      'it-IT': { about: 'chi-siamo' }
+    },
+    domains: {
+      'it-IT': { hostnames: ['example.it', 'it.example.com'] },
+      'en-US': { hostnames: ['example.com'] }
+    }
+  };
+
+  test('getDomainLang', () => {
+    expect(getDomainLang('IT.example.com', config)).toBe('it-IT');
+    expect(getDomainLang('localhost', config)).toBeUndefined();
+  });
+  test('getUrlLang', () => {
+    expect(getUrlLang('https://example.it/chi-siamo/', config)).toBe('it-IT');
+    expect(getUrlLang('https://example.it/en-US/about/', config)).toBe('en-US');
+    expect(getUrlLang('http://localhost:5173/', config)).toBe('en-US');
+  });
+  test('localizeUrl', () => {
+    expect(localizeUrl('https://example.com/about/?id=1#top', 'it-IT', config))
+      .toBe('https://example.it/chi-siamo/?id=1#top');
+    expect(localizeUrl('https://it.example.com/chi-siamo/', 'en-US', config)).toBe('https://example.com/about/');
+    expect(localizeUrl('https://it.example.com/about/', 'it-IT', config)).toBe('/chi-siamo/');
+    expect(localizeUrl('http://example.com:5173/', 'it-IT', config)).toBe('http://example.it:5173/');
+  });
+  test('languages without domain', () => {
+    const partialConfig = { ...config, domains: { 'it-IT': { hostnames: ['example.it'] } } };
+    expect(localizeUrl('https://example.it/chi-siamo/', 'en-US', partialConfig)).toBe('/en-US/about/');
+    expect(localizeUrl('https://example.it/en-US/about/', 'it-IT', partialConfig)).toBe('/chi-siamo/');
+    expect(localizeUrl('https://localhost/about/', 'en-US', partialConfig)).toBe('/about/');
+  });
+  test('prefix', () => {
+    const prefixConfig = { ...config, domains: { 'it-IT': { hostnames: ['example.it'], prefix: true } } };
+    expect(localizeUrl('https://example.com/about/', 'it-IT', prefixConfig)).toBe('https://example.it/it-IT/chi-siamo/');
+    expect(getUrlLang('https://example.it/chi-siamo/', prefixConfig)).toBe('it-IT');
+  });
+  test('getAlternates', () => {
+    expect(getAlternates('https://example.it/chi-siamo/', config)).toEqual([
+      { hreflang: 'it-IT', href: 'https://example.it/chi-siamo/' },
+      { hreflang: 'en-US', href: 'https://example.com/about/' },
+      { hreflang: 'x-default', href: 'https://example.com/about/' }
+    ]);
+  });
+  test('localizedRoutesHandler', () => {
+    const handler = localizedRoutesHandler(config);
+    const handle = (url: string) => {
+      try {
+        handler(mockRequestEvent(url) as RequestEvent);
+      } catch (e) {
+        return e;
+      }
+    };
+
+    expect(handle('https://example.com/it-IT/about/?id=1'))
+      .toEqual({ statusCode: 301, url: 'https://example.it/chi-siamo/?id=1' });
+    expect(handle('https://example.it/it-IT/chi-siamo/')).toEqual({ statusCode: 301, url: '/chi-siamo/' });
+    expect(handle('https://example.it/chi-siamo/')).toBeUndefined();
+    expect(handle('https://example.com/about/')).toBeUndefined();
+  });
+});
@@ -0,0 +1,41 @@
+import { component$, inlinedQrl } from '@builder.io/qwik';
+import { renderToString } from '@builder.io/qwik/server';
+import { test, describe, expect } from 'vitest';
+
+import type { Translation, TranslationFn } from '../library/types';
+import { QwikSpeakProvider } from '../library/qwik-speak-component';
+import { Speak } from '../library/speak-component';
+import { $translate as t } from '../library/translate';
+import { ctx } from './config';
+
+const translations: Record<string, Translation> = {
+  'en-US': {
+    app: { app: { title: 'Qwik Speak' } },
+    scoped: { home: { greeting: 'Hi! I am Qwik Speak' } }
+  }
+};
+
+const loadTranslation = (lang: string, asset: string): Translation | null => translations[lang]?.[asset] ?? null;
+
+const translationFn: TranslationFn = {
+  loadTranslation$: inlinedQrl(loadTranslation, 'speakComponent_loadTranslation')
+};
+
+describe('Speak component', () => {
+  test('scopes survive the server render', async () => {
+    const Home = component$(() => {
+      return <p>{t('home.greeting')}</p>;
+    });
+    const { html } = await renderToString(
+      <QwikSpeakProvider config={{ ...ctx.config, assets: ['app'] }} translationFn={translationFn}>
+        <Speak assets={['scoped']}>
+          <Home />
+        </Speak>
+      </QwikSpeakProvider>,
+      { containerTagName: 'div' }
+    );
+    expect(html).toContain('Hi! I am Qwik Speak');
+    // The scoped asset has been serialized with the state
+    expect(html).toContain('"scoped"');
+  });
+});
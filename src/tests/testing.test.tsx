@@ -0,0 +1,66 @@
+import { component$ } from '@builder.io/qwik';
+import { test, describe, expect } from 'vitest';
+
+import { $translate as t } from '../library/translate';
+import {
+  assertNoMissingTranslations,
+  createSpeakTestContext,
+  renderEachLocale,
+  renderWithSpeak
+} from '../testing';
+import { ctx } from './config';
+
+const config = { ...ctx.config, assets: ['app'] };
+
+const translations = {
+  'en-US': {
+    app: { app: { title: 'Qwik Speak', greeting: 'Hi! I am {{name}}' } }
+  },
+  'it-IT': {
+    app: { app: { title: 'Qwik Speak' } }
+  }
+};
+
+const TestComponent = component$(() => {
+  return (
+    <div>
+      <h1>{t('app.title')}</h1>
+      <p>{t('app.greeting', { name: 'Qwik Speak' })}</p>
+    </div>
+  );
+});
+
+describe('testing', () => {
+  test('createSpeakTestContext', () => {
+    const testCtx = createSpeakTestContext(config, {
+      'en-US': { app: { app: { title: 'Qwik Speak', subtitle: 'i18n' } }, override: { app: { title: 'Qwik Speak ⚡️' } } }
+    }, config.supportedLocales[0]);
+    expect(testCtx.locale.lang).toBe('it-IT');
+    expect(t('app.title', {}, testCtx, 'en-US')).toBe('Qwik Speak ⚡️');
+    expect(t('app.subtitle', {}, testCtx, 'en-US')).toBe('i18n');
+    expect(t('app.title', {}, testCtx)).toBe('app.title');
+  });
+  test('createSpeakTestContext in the order of the assets', () => {
+    const testCtx = createSpeakTestContext({ ...config, assets: ['override', 'app'] }, {
+      'en-US': { app: { app: { title: 'Qwik Speak' } }, override: { app: { title: 'Qwik Speak ⚡️' } } }
+    });
+    expect(t('app.title', {}, testCtx)).toBe('Qwik Speak');
+  });
+  test('renderWithSpeak', async () => {
+    const { screen, missingTranslations } = await renderWithSpeak(<TestComponent />, config, translations);
+    expect(screen.outerHTML).toContain('Hi! I am Qwik Speak');
+    expect(missingTranslations).toEqual([]);
+  });
+  test('renderEachLocale', async () => {
+    const results = await renderEachLocale(<TestComponent />, config, translations);
+    expect(results.map(result => [result.locale.lang, result.missingKeys])).toEqual([
+      ['it-IT', ['app.greeting']],
+      ['en-US', []]
+    ]);
+    expect(results[0].screen.outerHTML).toContain('app.greeting');
+  });
+  test('assertNoMissingTranslations', async () => {
+    await expect(assertNoMissingTranslations(<TestComponent />, config, translations))
+      .rejects.toThrow('Missing translations:\nit-IT: app.greeting');
+  });
+});
@@ -0,0 +1,46 @@
+import { createDOM } from '@builder.io/qwik/testing';
+import { test, describe, expect } from 'vitest';
+
+import { parseRichText, Trans } from '../library/trans-component';
+
+describe('Trans component', () => {
+  test('parseRichText', () => {
+    expect(parseRichText('Read the <link>docs</link>, {{name}}<br/>')).toEqual([
+      { type: 'text', value: 'Read the ' },
+      { type: 'tag', name: 'link', children: [{ type: 'text', value: 'docs' }] },
+      { type: 'text', value: ', ' },
+      { type: 'param', name: 'name', source: '{{name}}' },
+      { type: 'tag', name: 'br', children: [] }
+    ]);
+    expect(parseRichText('<0>Bold <1>nested</1></0>')).toEqual([
+      {
+        type: 'tag', name: '0', children: [
+          { type: 'text', value: 'Bold ' },
+          { type: 'tag', name: '1', children: [{ type: 'text', value: 'nested' }] }
+        ]
+      }
+    ]);
+    expect(parseRichText('a < b </i> <b>c')).toEqual([{ type: 'text', value: 'a < b </i> <b>c' }]);
+  });
+  test('render', async () => {
+    const { screen, render } = await createDOM();
+
+    await render(
+      <p>
+        <Trans
+          value="Hi <b>{{name}}</b>, read the <link>docs</link><unknown>!</unknown>"
+          components={{
+            b: (props) => <strong>{props.children}</strong>,
+            link: (props) => <a href="/docs">{props.children}</a>
+          }}
+          params={{ name: '<script>alert(1)</script>' }}
+        />
+      </p>
+    );
+
+    expect(screen.textContent).toBe('Hi <script>alert(1)</script>, read the docs!');
+    expect(screen.querySelector('strong')?.textContent).toBe('<script>alert(1)</script>');
+    expect(screen.querySelector('a')?.getAttribute('href')).toBe('/docs');
+    expect(screen.querySelector('script')).toBeFalsy();
+  });
+});
@@ -1,9 +1,17 @@
-import { test, describe, expect } from 'vitest';
+import { test, describe, expect, vi } from 'vitest';
+import { inlinedQrl } from '@builder.io/qwik';
 
 import { changeLocale } from '../library/change-locale';
-import { $translate as t } from '../library/translate';
+import { $translate as t, useTranslate } from '../library/translate';
+import { getFallbackLangs } from '../library/core';
+import { createSpeakTestContext } from '../testing/test-context';
 import { ctx } from './config';
 
+vi.mock('../library/use-functions', async () => {
+  const { ctx } = await import('./config');
+  return { useSpeakContext: () => ctx };
+});
+
 describe('translate function', () => {
   test('translate', () => {
     const value = t('test', {}, ctx);
@@ -25,6 +33,20 @@ describe('translate function', () => {
     const value = t('test1', {}, ctx);
     expect(value).toBe('test1');
   });
+  test('missing value with handleMissingTranslation$', async () => {
+    const missingCtx = {
+      ...ctx,
+      translationFn: {
+        ...ctx.translationFn,
+        handleMissingTranslation$: inlinedQrl((key: string, params: any, lang: string) => {
+          return `[${lang}] ${key}`;
+        }, 'handleMissingTranslationStub')
+      }
+    };
+    await missingCtx.translationFn.handleMissingTranslation$.resolve();
+    const value = t(['test', 'test1'], {}, missingCtx);
+    expect(value).toEqual(['Test', '[en-US] test1']);
+  });
   test('key separator', () => {
     const value = t('nested.test', {}, ctx);
     expect(value).toBe('Test');
@@ -37,6 +59,47 @@ describe('translate function', () => {
     const value = t('test1@@Test {{param}}', { param: 'params' }, ctx);
     expect(value).toBe('Test params');
   });
+  test('translate with fallback chain', () => {
+    const fallbackCtx = { ...ctx, config: { ...ctx.config, fallbackLangs: {} } };
+    let value = t('testParams', { param: 'params' }, fallbackCtx, 'it-IT');
+    expect(value).toBe('Test params');
+    value = t('test', {}, fallbackCtx, 'it-IT');
+    expect(value).toBe('Prova');
+    value = t('test1@@Test 1', {}, fallbackCtx, 'it-IT');
+    expect(value).toBe('Test 1');
+    value = t('testParams', { param: 'params' }, ctx, 'it-IT');
+    expect(value).toBe('testParams');
+  });
+  test('translate with multi-hop fallback chain', () => {
+    const chLocale = { lang: 'it-CH', currency: 'CHF', timeZone: 'Europe/Zurich' };
+    const chainCtx = createSpeakTestContext({
+      ...ctx.config,
+      supportedLocales: [chLocale, ...ctx.config.supportedLocales],
+      fallbackLangs: { 'it-CH': ['it-IT'] }
+    }, {
+      'it-CH': { app: { app: { greeting: 'Grüezi', claim: 'Svizzera' } } },
+      'it-IT': { app: { app: { brand: 'Qwicco', greeting: 'Ciao', title: 'Benvenuti in @:app.brand' } } },
+      'en-US': {
+        app: { app: { brand: 'Qwik', title: 'Welcome', subtitle: 'Translate @:app.brand apps', footer: '@:app.claim' } }
+      }
+    }, chLocale);
+    expect(getFallbackLangs('it-CH', chainCtx.config)).toEqual(['it-IT', 'en-US']);
+    expect(t('app.greeting', {}, chainCtx)).toBe('Grüezi');
+    expect(t('app.title', {}, chainCtx)).toBe('Benvenuti in Qwicco');
+    // Links are resolved against the data of the language of the value
+    expect(t('app.subtitle', {}, chainCtx)).toBe('Translate Qwik apps');
+    expect(t('app.footer', {}, chainCtx)).toBe('@:app.claim');
+    expect(t('app.missing@@@:app.claim', {}, chainCtx)).toBe('Svizzera');
+  });
+  test('useTranslate', () => {
+    const tn = useTranslate('nested');
+    expect(tn('test')).toBe('Test');
+    expect(tn(['test', 'missing@@Missing'])).toEqual(['Test', 'Missing']);
+    expect(tn('test1')).toBe('nested.test1');
+    expect(tn('test', undefined, 'it-IT')).toBe('nested.test');
+    const tr = useTranslate();
+    expect(tr('testParams', { param: 'params' })).toBe('Test params');
+  });
   test('translate when locale changes', async () => {
     await changeLocale({
       lang: 'it-IT',
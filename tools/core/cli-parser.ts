@@ -8,5 +8,9 @@ export function parseArgument(arg: string): { key: string, value: any } {
     const value = /,/.test(property[1]) ? property[1].split(',') : property[1];
     return { key, value };
   }
+  // Flag
+  if (property.length === 1 && property[0].startsWith('--')) {
+    return { key: property[0].slice(2), value: true };
+  }
   return { key: 'error', value: `- wrong option: "${property[0]}"` };
 }
@@ -0,0 +1,42 @@
+import type { Translation } from '../inline/types';
+import { getKeyValue, getLinkRegex } from '../../src/library/links';
+
+// Inlined values resolve their links like the library does
+export { resolveLinks } from '../../src/library/links';
+
+/**
+ * Return the broken links of translation data: missing keys and circular references
+ */
+export function getBrokenLinks(data: Translation, keySeparator: string): string[] {
+  const brokenLinks: string[] = [];
+
+  const check = (value: string, path: string[]) => {
+    for (const match of value.matchAll(getLinkRegex(keySeparator))) {
+      const key = match[1] ?? match[2];
+      const linkedValue = getKeyValue(key, data, keySeparator);
+
+      if (typeof linkedValue !== 'string') {
+        brokenLinks.push(`${path[0]}: ${match[0]} - missing`);
+      } else if (path.includes(key)) {
+        brokenLinks.push(`${path[0]}: ${match[0]} - circular`);
+      } else {
+        check(linkedValue, [...path, key]);
+      }
+    }
+  };
+
+  const walk = (target: Translation, prefix: string[]) => {
+    for (const [name, value] of Object.entries(target)) {
+      const keys = [...prefix, name];
+      if (typeof value === 'string') {
+        check(value, [keys.join(keySeparator)]);
+      } else if (value && typeof value === 'object') {
+        walk(value, keys);
+      }
+    }
+  };
+
+  walk(data, []);
+
+  return brokenLinks;
+}
@@ -1,3 +1,8 @@
+import { basename, extname } from 'path';
+
+// Translation data are merged as at runtime
+export { deepMerge } from '../../src/library/merge';
+
 /**
  * https://github.com/lukeed/dset
  */
@@ -11,14 +16,16 @@ export function deepSet(target: { [key: string]: any }, keys: string[], val: str
   }
 }
 
-export function deepMerge(target: { [key: string]: any }, source: { [key: string]: any }) {
-  if (typeof target === 'object' && typeof source === 'object') {
-    for (const key of Object.keys(source)) {
-      if (!target[key] || typeof source[key] !== 'object')
-        target[key] = source[key];
-      else
-        deepMerge(target[key], source[key]);
-    }
-  }
-  return target;
+/**
+ * Sort the asset files in merge order, as at runtime: first the files of the assets, in their order,
+ * then the other files, e.g. the scoped assets of Speak components, in alphabetical order. Later files win
+ * @param files The filenames, with or without extension
+ * @param assets The assets of Speak config
+ */
+export function sortAssetFiles(files: string[], assets: string[] = []): string[] {
+  const getIndex = (file: string) => {
+    const index = assets.indexOf(basename(file, extname(file)));
+    return index !== -1 ? index : assets.length;
+  };
+  return [...files].sort((a, b) => getIndex(a) - getIndex(b) || (a < b ? -1 : a > b ? 1 : 0));
 }
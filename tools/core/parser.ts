@@ -1,3 +1,5 @@
+import { deepMerge } from './merge';
+
 export interface Property {
   type: 'Property';
   key: {
@@ -308,15 +310,20 @@ export function parse(tokens: Token[], code: string, alias: string): CallExpress
 }
 
 /**
- * Parse in the code the sequence of functions defined by the alias
+ * Parse in the code, or in a range of it, the sequence of functions defined by the alias
  */
-export function parseSequenceExpressions(code: string, alias: string): CallExpression[] {
+export function parseSequenceExpressions(
+  code: string,
+  alias: string,
+  start = 0,
+  end = code.length
+): CallExpression[] {
   const sequenceExpressions: CallExpression[] = [];
 
   let i = 0;
-  let p = 0;
+  let p = start;
   do {
-    i = code.slice(p).search(new RegExp(`${alias}\\(`, 'gs'));
+    i = code.slice(p, end).search(new RegExp(`${alias}\\(`, 'gs'));
 
     if (i >= 0) {
       const tokens = tokenize(code, i + p);
@@ -356,7 +363,138 @@ export function getPluralAlias(code: string): string {
   return pluralAlias;
 }
 
+/**
+ * Function returned by useTranslate, bound to a key prefix
+ */
+export interface ScopedTranslate {
+  alias: string;
+  prefix?: string;
+  /**
+   * Range of the block that declares the function
+   */
+  start: number;
+  end: number;
+}
+
+/**
+ * Get the functions returned by useTranslate, e.g. const t = useTranslate('home'),
+ * each one with the range of the function or component body that declares it
+ */
+export function getUseTranslateAliases(code: string, escape = true): ScopedTranslate[] {
+  const useTranslateAlias = code.match(/(?<=useTranslate as).*?(?=,|\})/s)?.[0]?.trim() || 'useTranslate';
+  const regex = new RegExp(
+    `(?:const|let|var)\\s+([\\w$]+)\\s*=\\s*${useTranslateAlias.replace(/\$/g, '\\$')}\\(\\s*(?:(['"\`])(.*?)\\2)?\\s*\\)`,
+    'g'
+  );
+
+  const aliases: ScopedTranslate[] = [];
+  for (const match of code.matchAll(regex)) {
+    let alias = match[1];
+    // Escape special characters / Assert position at a word boundary
+    if (escape) alias = alias.startsWith('$') ? `\\${alias}` : `\\b${alias}`;
+    aliases.push({ alias, prefix: match[3] || undefined, ...getBlockRange(code, match.index ?? 0) });
+  }
+  return aliases;
+}
+
+/**
+ * Get the range of the innermost block containing the position, or the whole code at the top level
+ */
+export function getBlockRange(code: string, position: number): { start: number, end: number } {
+  let start = 0;
+  let end = code.length;
+
+  let depth = 0;
+  for (let i = position - 1; i >= 0; i--) {
+    if (code[i] === '}') depth++;
+    else if (code[i] === '{') {
+      if (depth === 0) {
+        start = i + 1;
+        break;
+      }
+      depth--;
+    }
+  }
+  if (start === 0) return { start, end };
+
+  depth = 0;
+  for (let i = position; i < code.length; i++) {
+    if (code[i] === '{') depth++;
+    else if (code[i] === '}') {
+      if (depth === 0) {
+        end = i;
+        break;
+      }
+      depth--;
+    }
+  }
+  return { start, end };
+}
+
+/**
+ * Map the arguments of a function returned by useTranslate to the arguments of $translate:
+ * keys are prefixed, and the lang is moved after the context
+ */
+export function getScopedArguments(args: Argument[], keySeparator: string, prefix?: string): Argument[] {
+  const withPrefix = (key: string) => prefix ? `${prefix}${keySeparator}${key}` : key;
+
+  let keys = args[0];
+  if (keys?.type === 'Literal' && keys.value) {
+    keys = { ...keys, value: withPrefix(keys.value) };
+  } else if (keys?.type === 'ArrayExpression' && keys.elements) {
+    keys = { ...keys, elements: keys.elements.map(element => ({ ...element, value: withPrefix(element.value) })) };
+  }
+
+  const scopedArgs: Argument[] = [keys, args[1]];
+  if (args[2]) scopedArgs[3] = args[2];
+  return scopedArgs;
+}
+
+/**
+ * Split the source of the arguments of a function, e.g. "t('key', { a: 1 })" => ["'key'", '{ a: 1 }']
+ */
+export function splitArguments(fn: string): string[] {
+  const args: string[] = [];
+
+  const start = fn.indexOf('(');
+  if (start < 0) return args;
+
+  let depth = 0;
+  let quote: string | undefined;
+  let buffer = '';
+
+  for (let i = start + 1; i < fn.length; i++) {
+    const char = fn[i];
+
+    if (quote) {
+      if (char === '\\') {
+        buffer += char + fn[++i];
+        continue;
+      }
+      if (char === quote) quote = undefined;
+    } else if (/['"`]/.test(char)) {
+      quote = char;
+    } else if (/[([{]/.test(char)) {
+      depth++;
+    } else if (/[)\]}]/.test(char)) {
+      if (depth === 0) break;
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      args.push(buffer.trim());
+      buffer = '';
+      continue;
+    }
+
+    buffer += char;
+  }
+
+  if (buffer.trim()) args.push(buffer.trim());
+  return args;
+}
+
+/**
+ * Parse and deep merge json source
+ */
 export function parseJson(target: { [key: string]: any }, source: string): { [key: string]: any } {
-  target = { ...target, ...JSON.parse(source) };
-  return target;
+  return deepMerge(target, JSON.parse(source));
 }
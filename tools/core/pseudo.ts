@@ -0,0 +1,34 @@
+import type { PseudoLocaleOptions, Translation } from '../inline/types';
+import { pseudoLocalize } from '../../src/library/pseudo-locale';
+import { resolveLinks } from './links';
+
+// The values baked into builds are pseudo-localized like the runtime pseudo-locale
+export { pseudoLocalize };
+
+/**
+ * Pseudo-localize translation data: linked messages are resolved first
+ */
+export function pseudoLocalizeData(
+  data: Translation,
+  options: Pick<PseudoLocaleOptions, 'accents' | 'expansion' | 'brackets'>,
+  keySeparator: string,
+  messageFormat: 'default' | 'icu' = 'default'
+): Translation {
+  const walk = (target: Translation, prefix: string[]): Translation => {
+    const pseudoData: Translation = {};
+    for (const [name, value] of Object.entries(target)) {
+      const path = [...prefix, name];
+      if (typeof value === 'string') {
+        const key = path.join(keySeparator);
+        pseudoData[name] = pseudoLocalize(resolveLinks(value, data, keySeparator, [key]), options, messageFormat);
+      } else if (value && typeof value === 'object') {
+        pseudoData[name] = walk(value, path);
+      } else {
+        pseudoData[name] = value;
+      }
+    }
+    return pseudoData;
+  };
+
+  return walk(data, []);
+}
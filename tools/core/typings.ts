@@ -0,0 +1,143 @@
+import type { Translation } from '../extract/types';
+import { resolveLinks } from './links';
+import { deepMerge, sortAssetFiles } from './merge';
+
+const pluralRules = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/**
+ * Return the names of the params contained in a value, e.g. 'Hi! I am {{name}}' or '{{ value, number }}'.
+ * Undefined when the value contains other braces, like ICU arguments, which are not typed
+ */
+export function getParamNames(value: string): string[] | undefined {
+  const paramRegex = /{{\s*([^{}\s,]*)\s*(?:,\s*[^{}]*)?}}/g;
+
+  if (/[{}]/.test(value.replace(paramRegex, ''))) return undefined;
+
+  const names = [...value.matchAll(paramRegex)].map(match => match[1]).filter(name => !!name);
+  return [...new Set(names)];
+}
+
+/**
+ * An object whose properties are only plural rules, e.g. { one: '', other: '' }
+ */
+export function isPlural(target: Translation): boolean {
+  const keys = Object.keys(target);
+  return keys.length > 0 && keys.every(key => pluralRules.includes(key) && typeof target[key] === 'string');
+}
+
+/**
+ * Return the keys of translation data with the names of their params, and the plural prefixes
+ * @param data Translation data
+ * @param keySeparator Separator of nested keys
+ * @param linkData Data to resolve linked messages. Default is data
+ */
+export function getKeys(data: Translation, keySeparator: string, linkData = data): {
+  keys: Map<string, string[] | undefined>,
+  plurals: Set<string>
+} {
+  const keys = new Map<string, string[] | undefined>();
+  const plurals = new Set<string>();
+
+  const walk = (target: Translation, prefix: string[]) => {
+    if (prefix.length > 0 && isPlural(target)) plurals.add(prefix.join(keySeparator));
+
+    for (const [name, value] of Object.entries(target)) {
+      const path = [...prefix, name];
+      if (typeof value === 'string') {
+        const key = path.join(keySeparator);
+        keys.set(key, getParamNames(resolveLinks(value, linkData, keySeparator, [key])));
+      } else if (value && typeof value === 'object') {
+        walk(value, path);
+      }
+    }
+  };
+
+  walk(data, []);
+
+  return { keys, plurals };
+}
+
+/**
+ * Generate the declaration of the translation keys from the assets.
+ * Keys and params of the same asset in different languages are merged
+ * @param assets The translation data of each asset by language: { [lang]: { [asset]: data } }
+ * @param keySeparator Separator of nested keys
+ * @param keyValueSeparator Key-value separator
+ * @param assetOrder The assets of Speak config, in merge order
+ */
+export function generateTypes(
+  assets: { [lang: string]: { [asset: string]: Translation } },
+  keySeparator: string,
+  keyValueSeparator: string,
+  assetOrder: string[] = []
+): string {
+  const assetKeys = new Map<string, Set<string>>();
+  const keyParams = new Map<string, Set<string> | undefined>();
+  const pluralKeys = new Set<string>();
+
+  for (const lang of Object.keys(assets)) {
+    // Linked messages are resolved against all the files of the same language
+    const linkData: Translation = {};
+    for (const asset of sortAssetFiles(Object.keys(assets[lang]), assetOrder)) {
+      deepMerge(linkData, assets[lang][asset]);
+    }
+
+    for (const asset of Object.keys(assets[lang])) {
+      const keysByAsset = assetKeys.get(asset) ?? new Set<string>();
+
+      const { keys, plurals } = getKeys(assets[lang][asset], keySeparator, linkData);
+
+      for (const [key, params] of keys) {
+        keysByAsset.add(key);
+
+        // Untyped params win
+        if (!keyParams.has(key)) {
+          keyParams.set(key, params ? new Set(params) : undefined);
+        } else {
+          const current = keyParams.get(key);
+          if (current && params) params.forEach(param => current.add(param));
+          else keyParams.set(key, undefined);
+        }
+      }
+      plurals.forEach(prefix => pluralKeys.add(prefix));
+
+      assetKeys.set(asset, keysByAsset);
+    }
+  }
+
+  const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+
+  const getParamsType = (params: Set<string> | undefined): string => {
+    if (!params) return 'Record<string, any>';
+    if (params.size === 0) return 'Record<string, never>';
+    return `{ ${[...params].sort().map(param => `${quote(param)}: any;`).join(' ')} }`;
+  };
+
+  const lines: string[] = [
+    '/* eslint-disable */',
+    '// Generated by Qwik Speak Extract: do not edit',
+    'import \'qwik-speak\';',
+    '',
+    'declare module \'qwik-speak\' {',
+    '  interface TranslationSeparators {',
+    `    keySeparator: ${quote(keySeparator)};`,
+    `    keyValueSeparator: ${quote(keyValueSeparator)};`,
+    '  }',
+    '  interface TranslationAssets {'
+  ];
+  for (const [asset, keys] of [...assetKeys].sort((a, b) => a[0] < b[0] ? -1 : 1)) {
+    const union = [...keys].sort().map(key => quote(key)).join(' | ');
+    lines.push(`    ${quote(asset)}: ${union || 'never'};`);
+  }
+  lines.push('  }', '  interface TranslationKeys {');
+  for (const key of [...keyParams.keys()].sort()) {
+    lines.push(`    ${quote(key)}: ${getParamsType(keyParams.get(key))};`);
+  }
+  lines.push('  }', '  interface PluralKeys {');
+  for (const prefix of [...pluralKeys].sort()) {
+    lines.push(`    ${quote(prefix)}: true;`);
+  }
+  lines.push('  }', '}', '');
+
+  return lines.join('\n');
+}
@@ -1,6 +1,6 @@
 import type { QwikSpeakExtractOptions } from './types';
 import { parseArgument } from '../core/cli-parser';
-import { qwikSpeakExtract } from './index';
+import { qwikSpeakExtract, qwikSpeakWatchTypes } from './index';
 
 const assertType = (value: any, type: string): boolean => {
   if (type === value) return true;
@@ -16,6 +16,8 @@ const args = process.argv.slice(2);
 
 const options: Partial<QwikSpeakExtractOptions> = {};
 
+let watchTypes = false;
+
 const errors: string[] = [];
 
 // Parse arguments
@@ -42,6 +44,11 @@ for (const arg of args) {
       if (assertType(value, 'array')) options.supportedLangs = value;
       else errors.push(wrongOption(key, value));
       break;
+    case 'assets':
+      if (assertType(value, 'array')) options.assets = value;
+      else if (assertType(value, 'string')) options.assets = [value];
+      else errors.push(wrongOption(key, value));
+      break;
     case 'keySeparator':
       if (assertType(value, 'string')) options.keySeparator = value;
       else errors.push(wrongOption(key, value));
@@ -50,6 +57,14 @@ for (const arg of args) {
       if (assertType(value, 'string')) options.keyValueSeparator = value;
       else errors.push(wrongOption(key, value));
       break;
+    case 'typesPath':
+      if (assertType(value, 'string')) options.typesPath = value;
+      else errors.push(wrongOption(key, value));
+      break;
+    case 'watch':
+      if (value === true) watchTypes = true;
+      else errors.push(wrongOption(key, value));
+      break;
     case 'error':
       errors.push(value);
       break;
@@ -60,6 +75,7 @@ for (const arg of args) {
 
 // Required options
 if (!options.supportedLangs) errors.push(missingOption('supportedLangs'));
+if (watchTypes && !options.typesPath) errors.push(missingOption('typesPath'));
 
 // Log errors
 if (errors.length > 0) {
@@ -75,4 +91,9 @@ if (errors.length > 0) {
 console.log('\x1b[36m%s\x1b[0m', 'Qwik Speak Extract');
 console.log('\x1b[32m%s\x1b[0m', 'extracting translation...');
 
-qwikSpeakExtract(options as QwikSpeakExtractOptions);
+qwikSpeakExtract(options as QwikSpeakExtractOptions).then(() => {
+  if (watchTypes) {
+    console.log('\x1b[32m%s\x1b[0m', 'watching assets to generate types...');
+    qwikSpeakWatchTypes(options as QwikSpeakExtractOptions);
+  }
+});
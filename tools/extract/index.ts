@@ -1,12 +1,23 @@
 import { readdir, readFile, writeFile } from 'fs/promises';
-import { existsSync, mkdirSync } from 'fs';
-import { extname, join, normalize } from 'path';
+import { existsSync, mkdirSync, watch } from 'fs';
+import type { FSWatcher } from 'fs';
+import { basename, extname, join, normalize } from 'path';
 
 import type { QwikSpeakExtractOptions, Translation } from './types';
-import { getPluralAlias, getTranslateAlias, parseJson, parseSequenceExpressions } from '../core/parser';
-import { deepMerge, deepSet } from '../core/merge';
+import type { ScopedTranslate } from '../core/parser';
+import {
+  getPluralAlias,
+  getScopedArguments,
+  getTranslateAlias,
+  getUseTranslateAliases,
+  parseJson,
+  parseSequenceExpressions
+} from '../core/parser';
+import { deepMerge, deepSet, sortAssetFiles } from '../core/merge';
 import { minDepth, sortTarget, toJsonString } from '../core/format';
 import { getRules } from '../core/intl-parser';
+import { getBrokenLinks } from '../core/links';
+import { generateTypes } from '../core/typings';
 
 /**
  * Extract translations from source files
@@ -18,9 +29,11 @@ export async function qwikSpeakExtract(options: QwikSpeakExtractOptions) {
     basePath: options.basePath ?? './',
     sourceFilesPath: options.sourceFilesPath ?? 'src',
     assetsPath: options.assetsPath ?? 'public/i18n',
+    assets: options.assets ?? [],
     format: options.format ?? 'json',
     keySeparator: options.keySeparator ?? '.',
     keyValueSeparator: options.keyValueSeparator ?? '@@',
+    typesPath: options.typesPath ?? '',
   }
 
   // Logs
@@ -57,14 +70,17 @@ export async function qwikSpeakExtract(options: QwikSpeakExtractOptions) {
 
     const code = await readFile(normalize(`${resolvedOptions.basePath}/${file}`), 'utf8');
 
-    // $translate
-    if (/\$translate/.test(code)) {
-      const alias = getTranslateAlias(code);
+    /**
+     * Parse the sequence of $translate, or of a function returned by useTranslate
+     */
+    const parseTranslate = (alias: string, scoped?: ScopedTranslate) => {
       // Parse sequence
-      const sequence = parseSequenceExpressions(code, alias);
+      const sequence = parseSequenceExpressions(code, alias, scoped?.start, scoped?.end);
 
       for (const expr of sequence) {
-        const args = expr.arguments;
+        const args = scoped ?
+          getScopedArguments(expr.arguments, resolvedOptions.keySeparator, scoped.prefix) :
+          expr.arguments;
 
         if (args?.length > 0) {
           // Get array of keys or key
@@ -98,6 +114,18 @@ export async function qwikSpeakExtract(options: QwikSpeakExtractOptions) {
           }
         }
       }
+    };
+
+    // $translate
+    if (/\$translate/.test(code)) {
+      parseTranslate(getTranslateAlias(code));
+    }
+
+    // useTranslate
+    if (/useTranslate/.test(code)) {
+      for (const scoped of getUseTranslateAliases(code)) {
+        parseTranslate(scoped.alias, scoped);
+      }
     }
 
     // $plural
@@ -147,7 +175,8 @@ export async function qwikSpeakExtract(options: QwikSpeakExtractOptions) {
 
       if (!existsSync(baseAssets)) return;
 
-      const files = await readdir(baseAssets);
+      // Later files win
+      const files = sortAssetFiles(await readdir(baseAssets), resolvedOptions.assets);
 
       if (files.length > 0) {
         const ext = extname(files[0]);
@@ -200,7 +229,7 @@ export async function qwikSpeakExtract(options: QwikSpeakExtractOptions) {
           }
           const file = normalize(`${baseAssets}/${topLevelProperty}.${resolvedOptions.format}`);
           await writeFile(file, data);
-          console.log(file);
+          console.log('\x1b[32m%s\x1b[0m', `updated asset: ${file}`);
         }
       } else {
         let data: string;
@@ -212,7 +241,7 @@ export async function qwikSpeakExtract(options: QwikSpeakExtractOptions) {
 
         const file = normalize(`${baseAssets}/app.${resolvedOptions.format}`);
         await writeFile(file, data);
-        console.log(file);
+        console.log('\x1b[32m%s\x1b[0m', `updated asset: ${file}`);
       }
     }
   };
@@ -251,6 +280,20 @@ export async function qwikSpeakExtract(options: QwikSpeakExtractOptions) {
   // Write
   await writeAssets();
 
+  // Linked messages
+  const brokenLinks: string[] = [];
+  for (const lang of resolvedOptions.supportedLangs) {
+    for (const brokenLink of getBrokenLinks(translation[lang], resolvedOptions.keySeparator)) {
+      brokenLinks.push(`${lang} - ${brokenLink}`);
+    }
+  }
+  stats.set('broken links', brokenLinks.length);
+
+  // Types
+  if (resolvedOptions.typesPath) {
+    await qwikSpeakTypes(resolvedOptions);
+  }
+
   // Log
   for (const [key, value] of stats) {
     switch (key) {
@@ -263,8 +306,69 @@ export async function qwikSpeakExtract(options: QwikSpeakExtractOptions) {
       case 'dynamic plural':
         console.log('\x1b[32m%s\x1b[0m', `skipped plurals due to dynamic params: ${value}`);
         break;
+      case 'broken links':
+        if (value > 0) {
+          console.log('\x1b[33m%s\x1b[0m', `broken links: ${value}`);
+          brokenLinks.forEach(x => console.log('\x1b[33m%s\x1b[0m', x));
+        }
+        break;
     }
   }
 }
 
+/**
+ * Generate the declaration of translation keys and params from the assets
+ */
+export async function qwikSpeakTypes(options: QwikSpeakExtractOptions) {
+  const basePath = options.basePath ?? './';
+  const assetsPath = options.assetsPath ?? 'public/i18n';
+  const typesPath = options.typesPath ?? 'src/i18n.d.ts';
+
+  const assets: { [lang: string]: { [asset: string]: Translation } } = {};
+
+  await Promise.all(options.supportedLangs.map(async lang => {
+    const baseAssets = normalize(`${basePath}/${assetsPath}/${lang}`);
+
+    if (!existsSync(baseAssets)) return;
+
+    assets[lang] = {};
+
+    for (const filename of (await readdir(baseAssets)).sort()) {
+      const ext = extname(filename);
+      const source = await readFile(`${baseAssets}/${filename}`, 'utf8');
+      if (source) {
+        switch (ext) {
+          case '.json':
+            assets[lang][basename(filename, ext)] = parseJson({}, source);
+            break;
+        }
+      }
+    }
+  }));
+
+  const file = normalize(`${basePath}/${typesPath}`);
+  const types = generateTypes(assets, options.keySeparator ?? '.', options.keyValueSeparator ?? '@@', options.assets);
+  await writeFile(file, types);
+  console.log('\x1b[32m%s\x1b[0m', `generated types: ${file}`);
+}
+
+/**
+ * Regenerate the declaration of translation keys and params when the assets change
+ * @returns The watchers of the assets of each language
+ */
+export function qwikSpeakWatchTypes(options: QwikSpeakExtractOptions): FSWatcher[] {
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  const onChange = () => {
+    // Debounce bursts of events
+    clearTimeout(timeout);
+    timeout = setTimeout(() => qwikSpeakTypes(options).catch(error => console.error(error)), 100);
+  };
+
+  return options.supportedLangs
+    .map(lang => normalize(`${options.basePath ?? './'}/${options.assetsPath ?? 'public/i18n'}/${lang}`))
+    .filter(baseAssets => existsSync(baseAssets))
+    .map(baseAssets => watch(baseAssets, onChange));
+}
+
 export type { QwikSpeakExtractOptions };
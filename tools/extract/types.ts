@@ -22,6 +22,11 @@ export interface QwikSpeakExtractOptions {
    * Supported langs. Required
    */
   supportedLangs: string[];
+  /**
+   * The assets of Speak config: translation files are deep merged in their order, and later files win.
+   * Files of other assets are merged after them, in alphabetical order. Default is alphabetical order
+   */
+  assets?: string[];
   /**
    * Separator of nested keys. Default is '.'
    */
@@ -30,6 +35,10 @@ export interface QwikSpeakExtractOptions {
    * Key-value separator. Default is '@@'
    */
   keyValueSeparator?: string;
+  /**
+   * Optional path of the declaration file of translation keys and params, e.g. 'src/i18n.d.ts'
+   */
+  typesPath?: string;
 }
 
 /**
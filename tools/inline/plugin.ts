@@ -5,14 +5,28 @@ import { createWriteStream, existsSync, mkdirSync } from 'fs';
 import { extname, normalize } from 'path';
 
 import type { QwikSpeakInlineOptions, Translation } from './types';
-import { Argument, getPluralAlias, getTranslateAlias, parseJson, Property } from '../core/parser';
+import type { ScopedTranslate } from '../core/parser';
+import {
+  Argument,
+  getPluralAlias,
+  getScopedArguments,
+  getTranslateAlias,
+  getUseTranslateAliases,
+  parseJson,
+  Property,
+  splitArguments
+} from '../core/parser';
 import { parseSequenceExpressions } from '../core/parser';
 import { getRules } from '../core/intl-parser';
+import { deepMerge, sortAssetFiles } from '../core/merge';
+import { resolveLinks } from '../core/links';
+import { pseudoLocalizeData } from '../core/pseudo';
 
 // Logs
 const missingValues: string[] = [];
 const dynamicKeys: string[] = [];
 const dynamicParams: string[] = [];
+const runtimeMessages: string[] = [];
 
 /**
  * Qwik Speak Inline Vite plugin
@@ -25,9 +39,13 @@ export function qwikSpeakInline(options: QwikSpeakInlineOptions): Plugin {
     ...options,
     basePath: options.basePath ?? './',
     assetsPath: options.assetsPath ?? 'public/i18n',
+    assets: options.assets ?? [],
     keySeparator: options.keySeparator ?? '.',
     keyValueSeparator: options.keyValueSeparator ?? '@@',
-    splitChunks: options.splitChunks ?? false
+    splitChunks: options.splitChunks ?? false,
+    messageFormat: options.messageFormat ?? 'default',
+    escape: options.escape ?? false,
+    pseudoLocale: options.pseudoLocale ?? null
   }
 
   // Translation data
@@ -60,11 +78,14 @@ export function qwikSpeakInline(options: QwikSpeakInlineOptions): Plugin {
      * Load translation files when build starts
      */
     async buildStart() {
-      // For all langs
-      await Promise.all(resolvedOptions.supportedLangs.map(async lang => {
+      const { pseudoLocale } = resolvedOptions;
+
+      // For all langs, except the pseudo-locale
+      const langs = resolvedOptions.supportedLangs.filter(lang => lang !== pseudoLocale?.lang);
+      await Promise.all(langs.map(async lang => {
         const baseDir = normalize(`${resolvedOptions.basePath}/${resolvedOptions.assetsPath}/${lang}`);
-        // For all files
-        const files = await readdir(baseDir);
+        // For all files: later files win
+        const files = sortAssetFiles(await readdir(baseDir), resolvedOptions.assets);
 
         if (files.length > 0) {
           const ext = extname(files[0]);
@@ -83,9 +104,20 @@ export function qwikSpeakInline(options: QwikSpeakInlineOptions): Plugin {
             }
           }
 
-          translation[lang] = { ...translation[lang], ...data }; // Shallow merge
+          deepMerge(translation[lang], data);
         }
       }));
+
+      // Pseudo-locale
+      if (pseudoLocale) {
+        const sourceLang = pseudoLocale.sourceLang ?? resolvedOptions.defaultLang;
+        translation[pseudoLocale.lang] = pseudoLocalizeData(
+          translation[sourceLang] ?? {},
+          pseudoLocale,
+          resolvedOptions.keySeparator,
+          resolvedOptions.messageFormat
+        );
+      }
     },
 
     /**
@@ -96,22 +128,37 @@ export function qwikSpeakInline(options: QwikSpeakInlineOptions): Plugin {
     async transform(code: string, id: string) {
       // Filter id
       if (/\/src\//.test(id) && /\.(js|cjs|mjs|jsx|ts|tsx)$/.test(id)) {
+        const originalCode = code;
         // Filter code: $plural
         if (/\$plural/.test(code)) {
           const pluralAlias = getPluralAlias(code);
           const translateAlias = getTranslateAlias(code, false);
           code = transformPlural(code, pluralAlias, translateAlias, resolvedOptions);
         }
+        // Filter code: useTranslate
+        if (/useTranslate/.test(code)) {
+          // Inline each scope from the last, so that the ranges of the previous ones don't change
+          for (let i = getUseTranslateAliases(code).length - 1; i >= 0; i--) {
+            const scoped = getUseTranslateAliases(code)[i];
+            if (target === 'client' && resolvedOptions.splitChunks) {
+              code = inlinePlaceholder(code, translation, resolvedOptions, scoped) ?? code;
+            }
+            else {
+              code = inline(code, translation, scoped.alias, resolvedOptions, scoped) ?? code;
+            }
+          }
+        }
         // Filter code: $translate
         if (/\$translate/.test(code)) {
           if (target === 'client' && resolvedOptions.splitChunks) {
-            return inlinePlaceholder(code);
+            code = inlinePlaceholder(code, translation, resolvedOptions) ?? code;
           }
           else {
             const translateAlias = getTranslateAlias(code);
-            return inline(code, translation, translateAlias, resolvedOptions);
+            code = inline(code, translation, translateAlias, resolvedOptions) ?? code;
           }
         }
+        return code !== originalCode ? code : null;
       }
     },
 
@@ -138,6 +185,7 @@ export function qwikSpeakInline(options: QwikSpeakInlineOptions): Plugin {
       missingValues.forEach(x => log.write(x + '\n'));
       dynamicKeys.forEach(x => log.write(x + '\n'));
       dynamicParams.forEach(x => log.write(x + '\n'));
+      runtimeMessages.forEach(x => log.write(x + '\n'));
 
       log.write((`Qwik Speak Inline: build ends at ${new Date().toLocaleString()}\n`));
     }
@@ -197,10 +245,11 @@ export function inline(
   code: string,
   translation: Translation,
   alias: string,
-  opts: Required<QwikSpeakInlineOptions>
+  opts: Required<QwikSpeakInlineOptions>,
+  scoped?: ScopedTranslate
 ): string | null {
   // Parse sequence
-  const sequence = parseSequenceExpressions(code, alias);
+  const sequence = parseSequenceExpressions(code, alias, scoped?.start, scoped?.end);
 
   if (sequence.length === 0) return null;
 
@@ -209,13 +258,16 @@ export function inline(
     // Original function
     const originalFn = expr.value;
     // Arguments
-    const args = expr.arguments;
+    const args = scoped ? getScopedArguments(expr.arguments, opts.keySeparator, scoped.prefix) : expr.arguments;
 
     if (args?.length > 0) {
       if (checkDynamic(args, originalFn)) continue;
 
       const { defaultLang, supportedLangs } = withLang(args[3], opts);
 
+      if (checkMessageFormat(args, originalFn, translation, supportedLangs, opts)) continue;
+      if (checkFormatters(args, originalFn, translation, supportedLangs, opts)) continue;
+
       // Map of values
       const values = new Map<string, string | string[]>();
 
@@ -226,7 +278,7 @@ export function inline(
         for (const lang of supportedLangs) {
           const keyValues: string[] = [];
           for (const key of keys) {
-            const value = getValue(key, translation[lang], args[1], opts.keySeparator);
+            const value = getValue(key, translation[lang], args[1], opts.keySeparator, opts.escape);
             if (!value) {
               missingValues.push(`${lang} - missing value for key: ${key}`);
               continue;
@@ -240,7 +292,7 @@ export function inline(
         const key = getKey(args[0].value, opts.keyValueSeparator);
 
         for (const lang of supportedLangs) {
-          const value = getValue(key, translation[lang], args[1], opts.keySeparator);
+          const value = getValue(key, translation[lang], args[1], opts.keySeparator, opts.escape);
           if (!value) {
             missingValues.push(`${lang} - missing value for key: ${key}`);
             continue;
@@ -253,7 +305,7 @@ export function inline(
       const transpiled = transpileFn(values, supportedLangs, defaultLang);
 
       // Replace
-      code = code.replace(originalFn, transpiled);
+      code = replaceFrom(code, originalFn, transpiled, scoped?.start);
       replaced = true;
     }
   }
@@ -262,15 +314,24 @@ export function inline(
   if (replaced && opts.supportedLangs.length > 1) {
     code = addLang(code);
   }
+  // Add $escape
+  if (replaced && opts.escape && /\$escape\(/.test(code)) {
+    code = addEscape(code);
+  }
 
   return code;
 }
 
-export function inlinePlaceholder(code: string): string | null {
-  const alias = getTranslateAlias(code);
+export function inlinePlaceholder(
+  code: string,
+  translation: Translation,
+  opts: Required<QwikSpeakInlineOptions>,
+  scoped?: ScopedTranslate
+): string | null {
+  const alias = scoped ? scoped.alias : getTranslateAlias(code);
 
   // Parse sequence
-  const sequence = parseSequenceExpressions(code, alias);
+  const sequence = parseSequenceExpressions(code, alias, scoped?.start, scoped?.end);
 
   if (sequence.length === 0) return null;
 
@@ -278,21 +339,40 @@ export function inlinePlaceholder(code: string): string | null {
     // Original function
     const originalFn = expr.value;
     // Arguments
-    const args = expr.arguments;
+    const args = scoped ? getScopedArguments(expr.arguments, opts.keySeparator, scoped.prefix) : expr.arguments;
 
     if (args?.length > 0) {
       if (checkDynamic(args, originalFn)) continue;
+      if (checkMessageFormat(args, originalFn, translation, opts.supportedLangs, opts)) continue;
+      if (checkFormatters(args, originalFn, translation, opts.supportedLangs, opts)) continue;
 
       // Transpile with $inline placeholder
-      const transpiled = originalFn.replace(new RegExp(`${alias}\\(`, 's'), '$inline(');
+      const transpiled = scoped ?
+        transpileScopedFn(originalFn, opts.keySeparator, scoped.prefix) :
+        originalFn.replace(new RegExp(`${alias}\\(`, 's'), '$inline(');
       // Replace
-      code = code.replace(originalFn, transpiled);
+      code = replaceFrom(code, originalFn, transpiled, scoped?.start);
     }
   }
 
   return code;
 }
 
+/**
+ * Transpile a function returned by useTranslate to the $inline placeholder, with the arguments of $translate
+ */
+export function transpileScopedFn(originalFn: string, keySeparator: string, prefix?: string): string {
+  const [keys, params, lang] = splitArguments(originalFn);
+
+  const args = [prefix ?
+    keys.replace(/(['"`])((?:\\.|(?!\1).)*)\1/g, (m, quote, key) => `${quote}${prefix}${keySeparator}${key}${quote}`) :
+    keys];
+  if (params) args.push(params);
+  if (lang) args.push('undefined', lang);
+
+  return `$inline(${args.join(', ')})`;
+}
+
 export async function writeChunks(
   lang: string,
   bundles: (OutputAsset | OutputChunk)[],
@@ -363,6 +443,71 @@ export function checkDynamicPlural(args: Argument[], originalFn: string): boolea
   return false;
 }
 
+/**
+ * ICU messages are left to runtime evaluation
+ */
+export function checkMessageFormat(
+  args: Argument[],
+  originalFn: string,
+  translation: Translation,
+  supportedLangs: string[],
+  opts: Required<QwikSpeakInlineOptions>
+): boolean {
+  if (opts.messageFormat !== 'icu') return false;
+
+  const keys = getArgKeys(args[0], opts.keyValueSeparator);
+
+  for (const lang of supportedLangs) {
+    for (const key of keys) {
+      const value = getRawValue(key, translation[lang], opts.keySeparator);
+      if (typeof value === 'string' &&
+        isMessageFormat(resolveLinks(value, translation[lang], opts.keySeparator, [key]))) {
+        runtimeMessages.push(`ICU message: ${originalFn.replace(/\s+/g, ' ')} - runtime`);
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Formatted params depend on the locale and are left to runtime evaluation
+ */
+export function checkFormatters(
+  args: Argument[],
+  originalFn: string,
+  translation: Translation,
+  supportedLangs: string[],
+  opts: Required<QwikSpeakInlineOptions>
+): boolean {
+  if (opts.messageFormat === 'icu') return false;
+
+  const keys = getArgKeys(args[0], opts.keyValueSeparator);
+
+  for (const lang of supportedLangs) {
+    for (const key of keys) {
+      const value = getRawValue(key, translation[lang], opts.keySeparator);
+      if (typeof value === 'string' &&
+        hasFormatters(resolveLinks(value, translation[lang], opts.keySeparator, [key]))) {
+        runtimeMessages.push(`formatted params: ${originalFn.replace(/\s+/g, ' ')} - runtime`);
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+export function hasFormatters(value: string): boolean {
+  return /{{\s*[^{}\s,]*\s*,[^{}]*}}/.test(value);
+}
+
+/**
+ * Arguments and quoted characters of ICU messages can only be evaluated at runtime
+ */
+export function isMessageFormat(value: string): boolean {
+  return /[{}]|''/.test(value);
+}
+
 export function withLang(arg: Argument, opts: Required<QwikSpeakInlineOptions>) {
   let supportedLangs: string[];
   let defaultLang: string;
@@ -395,8 +540,9 @@ export function quoteValue(value: string): string {
   return '`' + value + '`';
 }
 
-export function interpolateParam(property: Property): string {
-  return property.value.type === 'Literal' ? "${'" + property.value.value + "'}" : '${' + property.value.value + '}';
+export function interpolateParam(property: Property, escape = false): string {
+  const value = property.value.type === 'Literal' ? "'" + property.value.value + "'" : property.value.value;
+  return escape ? '${$escape(' + value + ')}' : '${' + value + '}';
 }
 
 export function getKey(key: string, keyValueSeparator: string): string {
@@ -404,6 +550,12 @@ export function getKey(key: string, keyValueSeparator: string): string {
   return key;
 }
 
+export function getArgKeys(arg: Argument, keyValueSeparator: string): string[] {
+  if (arg.type === 'ArrayExpression') return getKeys(arg, keyValueSeparator);
+  if (arg?.value) return [getKey(arg.value, keyValueSeparator)];
+  return [];
+}
+
 export function getKeys(key: Argument, keyValueSeparator: string): string[] {
   const keys: string[] = [];
   if (key.elements) {
@@ -416,25 +568,33 @@ export function getKeys(key: Argument, keyValueSeparator: string): string[] {
   return keys;
 }
 
+export function getRawValue(key: string, data: Translation, keySeparator: string): any {
+  return key.split(keySeparator).reduce((acc, cur) =>
+    (acc && acc[cur] !== undefined) ?
+      acc[cur] :
+      undefined, data);
+}
+
 export function getValue(
   key: string,
   data: Translation,
   params: Argument | undefined,
-  keySeparator: string
+  keySeparator: string,
+  escape = false
 ): string | undefined {
-  const value = key.split(keySeparator).reduce((acc, cur) =>
-    (acc && acc[cur] !== undefined) ?
-      acc[cur] :
-      undefined, data);
-  if (typeof value === 'string') return params ? transpileParams(value, params) : quoteValue(value);
+  let value = getRawValue(key, data, keySeparator);
+  if (typeof value === 'string') {
+    value = resolveLinks(value, data, keySeparator, [key]);
+    return params ? transpileParams(value, params, escape) : quoteValue(value);
+  }
   return undefined;
 }
 
-export function transpileParams(value: string, params: Argument): string | undefined {
+export function transpileParams(value: string, params: Argument, escape = false): string | undefined {
   if (params.properties) {
     for (const property of params.properties) {
       value = value.replace(/{{\s?([^{}\s]*)\s?}}/g, (token: string, key: string) => {
-        return key === property.key.value ? interpolateParam(property) : token;
+        return key === property.key.value ? interpolateParam(property, escape) : token;
       });
     }
   }
@@ -511,6 +671,13 @@ export function transpilePluralFn(
   return translation;
 }
 
+/**
+ * Replace the first occurrence of the function starting from a position
+ */
+export function replaceFrom(code: string, originalFn: string, transpiled: string, position = 0): string {
+  return code.substring(0, position) + code.substring(position).replace(originalFn, transpiled);
+}
+
 /**
  * Add $lang to component
  */
@@ -521,6 +688,16 @@ export function addLang(code: string): string {
   return code;
 }
 
+/**
+ * Add $escape to component
+ */
+export function addEscape(code: string): string {
+  if (!/^import\s*\{.*\$escape.*}\s*from\s*/s.test(code)) {
+    code = code.replace(/^/, 'import { $escape } from "qwik-speak";\n');
+  }
+  return code;
+}
+
 /**
  * Add $rule to component
  */
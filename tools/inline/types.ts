@@ -18,6 +18,11 @@ export interface QwikSpeakInlineOptions {
    * Default lang. Required
    */
   defaultLang: string;
+  /**
+   * The assets of Speak config: translation files are deep merged in their order, and later files win.
+   * Files of other assets are merged after them, in alphabetical order. Default is alphabetical order
+   */
+  assets?: string[];
   /**
    * Separator of nested keys. Default is '.'
    */
@@ -30,6 +35,44 @@ export interface QwikSpeakInlineOptions {
    * If true, split chunks by lang
    */
   splitChunks?: boolean;
+  /**
+   * Syntax of the values. If 'icu', ICU messages are not inlined and are evaluated at runtime.
+   * Default is 'default'
+   */
+  messageFormat?: 'default' | 'icu';
+  /**
+   * If true, interpolated params are wrapped in $escape, which applies the escape policy of Speak config at runtime.
+   * Default is false
+   */
+  escape?: boolean;
+  /**
+   * Pseudo-locale to bake into the build: its values are the pseudo-localized values of the source lang.
+   * Its lang must be in supportedLangs
+   */
+  pseudoLocale?: PseudoLocaleOptions | null;
+}
+
+export interface PseudoLocaleOptions {
+  /**
+   * The lang of the pseudo-locale, e.g. 'en-XA'
+   */
+  lang: string;
+  /**
+   * The lang whose values are pseudo-localized. Default is defaultLang
+   */
+  sourceLang?: string;
+  /**
+   * Accent the letters. Default is true
+   */
+  accents?: boolean;
+  /**
+   * Expansion of the length of the values, e.g. 0.3 for 30% longer values. Default is 0.3
+   */
+  expansion?: number;
+  /**
+   * Markers of the start and of the end of the values. Default is ['[', ']']
+   */
+  brackets?: [string, string];
 }
 
 /**
@@ -4,7 +4,7 @@ import { readdir, readFile, writeFile } from 'fs/promises';
 import { normalize } from 'path';
 
 import { qwikSpeakExtract } from '../extract/index';
-import { mockAsset, mockSource } from './mock';
+import { mockAsset, mockScopedSource, mockSource } from './mock';
 
 // Mock part of 'fs/promises' module
 vi.mock('fs/promises', async () => {
@@ -13,10 +13,13 @@ vi.mock('fs/promises', async () => {
     ...mod,
     readdir: vi.fn()
       .mockImplementationOnce(() => [{ name: 'home.tsx', isDirectory: () => false }])
-      .mockImplementationOnce(() => ['home.json']),
+      .mockImplementationOnce(() => ['home.json'])
+      .mockImplementationOnce(() => [{ name: 'page.tsx', isDirectory: () => false }])
+      .mockImplementationOnce(() => []),
     readFile: vi.fn()
       .mockImplementationOnce(() => mockSource)
-      .mockImplementationOnce(() => mockAsset),
+      .mockImplementationOnce(() => mockAsset)
+      .mockImplementationOnce(() => mockScopedSource),
     writeFile: vi.fn()
   };
 });
@@ -52,6 +55,25 @@ describe('extract', () => {
     "tags": "Html tags",
     "text": "<em>Internationalization (i18n) library to translate texts, dates and numbers in Qwik apps</em>"
   }
+}`);
+  });
+  test('extract useTranslate in different scopes', async () => {
+    vi.mocked(writeFile).mockClear();
+
+    await qwikSpeakExtract({
+      supportedLangs: ['en-US']
+    });
+
+    expect(writeFile).toHaveBeenCalledTimes(2);
+    expect(writeFile).toHaveBeenNthCalledWith(1, normalize('public/i18n/en-US/home.json'), `{
+  "home": {
+    "title": ""
+  }
+}`);
+    expect(writeFile).toHaveBeenNthCalledWith(2, normalize('public/i18n/en-US/page.json'), `{
+  "page": {
+    "title": ""
+  }
 }`);
   });
 });
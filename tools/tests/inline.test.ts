@@ -1,8 +1,21 @@
 import { test, describe, expect } from 'vitest';
 
-import { getKey, getValue, qwikSpeakInline, transpileFn, addLang } from '../inline/plugin';
+import {
+  getKey, getValue, qwikSpeakInline, transpileFn, addLang, checkMessageFormat, checkFormatters, addEscape,
+  transpileScopedFn
+} from '../inline/plugin';
+import type { QwikSpeakInlineOptions } from '../inline/types';
 import { inlinedCode, mockCode } from './mock';
 
+/**
+ * Load the assets and transform the code with the plugin
+ */
+const transform = async (code: string, options: QwikSpeakInlineOptions): Promise<string | null> => {
+  const plugin = qwikSpeakInline(options);
+  await (plugin.buildStart as () => Promise<void>)();
+  return (plugin.transform as (code: string, id: string) => Promise<string | null>)(code, '/src/mock.code.js');
+};
+
 describe('inline', () => {
   test('getKey', () => {
     let key = getKey('key1', '@@');
@@ -64,6 +77,23 @@ describe('inline', () => {
     }, '.');
     expect(value).toBe('`Key1 {{param1}}`');
   });
+  test('getValue with linked messages', () => {
+    const value = getValue('key1', { key1: 'Key1 @:key2.subkey1', key2: { subkey1: 'Subkey1' } }, undefined, '.');
+    expect(value).toBe('`Key1 Subkey1`');
+  });
+  test('getValue with escape', () => {
+    const value = getValue('key1', { key1: 'Key1 {{param1}} and {{param2}}' }, {
+      type: 'ObjectExpression', properties: [
+        { type: 'Property', key: { type: 'Identifier', value: 'param1' }, value: { type: 'Literal', value: 'Param1' } },
+        { type: 'Property', key: { type: 'Identifier', value: 'param2' }, value: { type: 'Identifier', value: 'name' } }
+      ]
+    }, '.', true);
+    expect(value).toBe("`Key1 ${$escape('Param1')} and ${$escape(name)}`");
+  });
+  test('addEscape', () => {
+    expect(addEscape('const value = `${$escape(name)}`;')).toBe(`import { $escape } from "qwik-speak";
+const value = \`\${$escape(name)}\`;`);
+  });
   test('transpileFn', () => {
     let values = new Map<string, string>();
     values.set('en-US', '`Value`');
@@ -82,6 +112,59 @@ describe('inline', () => {
     const line = transpileFn(values, ['en-US', 'it-IT'], 'en-US');
     expect(line).toBe('$lang(`it-IT`) && [`Valore1`,`Valore2`] || [`Value1`,`Value2`]');
   });
+  test('checkMessageFormat', () => {
+    const opts = {
+      basePath: './',
+      assetsPath: 'public/i18n',
+      assets: [],
+      supportedLangs: ['en-US'],
+      defaultLang: 'en-US',
+      keySeparator: '.',
+      keyValueSeparator: '@@',
+      splitChunks: false,
+      messageFormat: 'icu' as const,
+      escape: false,
+      pseudoLocale: null
+    };
+    const translation = {
+      'en-US': {
+        title: 'Qwik Speak',
+        devs: '{count, plural, one {# developer} other {# developers}}'
+      }
+    };
+    let skip = checkMessageFormat([{ type: 'Literal', value: 'title' }], "t('title')", translation, ['en-US'], opts);
+    expect(skip).toBe(false);
+    skip = checkMessageFormat([{ type: 'Literal', value: 'devs' }], "t('devs')", translation, ['en-US'], opts);
+    expect(skip).toBe(true);
+    skip = checkMessageFormat([{ type: 'Literal', value: 'devs' }], "t('devs')", translation, ['en-US'],
+      { ...opts, messageFormat: 'default' });
+    expect(skip).toBe(false);
+  });
+  test('checkFormatters', () => {
+    const opts = {
+      basePath: './',
+      assetsPath: 'public/i18n',
+      assets: [],
+      supportedLangs: ['en-US'],
+      defaultLang: 'en-US',
+      keySeparator: '.',
+      keyValueSeparator: '@@',
+      splitChunks: false,
+      messageFormat: 'default' as const,
+      escape: false,
+      pseudoLocale: null
+    };
+    const translation = {
+      'en-US': {
+        greeting: 'Hi! I am {{ name }}',
+        price: 'Price: {{ price, currency }}'
+      }
+    };
+    let skip = checkFormatters([{ type: 'Literal', value: 'greeting' }], "t('greeting')", translation, ['en-US'], opts);
+    expect(skip).toBe(false);
+    skip = checkFormatters([{ type: 'Literal', value: 'price' }], "t('price')", translation, ['en-US'], opts);
+    expect(skip).toBe(true);
+  });
   test('addLang', () => {
     const code = addLang(`import { useStore } from "@builder.io/qwik";
 export const s_xJBzwgVGKaQ = ()=>{
@@ -96,22 +179,83 @@ export const s_xJBzwgVGKaQ = ()=>{
 };`);
   });
   test('transform', async () => {
-    const plugin = qwikSpeakInline({
+    const inlined = await transform(mockCode, {
       supportedLangs: ['en-US', 'it-IT'],
       defaultLang: 'en-US'
-    }) as any;
-    await plugin.buildStart?.();
-    const inlined = await plugin.transform?.(mockCode, '/src/mock.code.js');
+    });
     expect(inlined).toBe(inlinedCode);
   });
   test('transform arrays', async () => {
-    const plugin = qwikSpeakInline({
+    const inlined = await transform(`const values = $translate(['app.title', 'app.subtitle'])`, {
       supportedLangs: ['en-US', 'it-IT'],
       defaultLang: 'en-US'
-    }) as any;
-    await plugin.buildStart?.();
-    const inlined = await plugin.transform?.(`const values = $translate(['app.title', 'app.subtitle'])`, '/src/mock.code.js');
+    });
     expect(inlined).toBe(`import { $lang } from "qwik-speak";
 const values = $lang(\`it-IT\`) && [\`Qwik Speak\`,\`Traduci le tue app Qwik in qualsiasi lingua\`] || [\`Qwik Speak\`,\`Translate your Qwik apps into any language\`]`);
   });
+  test('transform Trans', async () => {
+    const inlined = await transform(`const text = _jsx(Trans, {
+    value: $translate('home.text'),
+    components: { em: (props)=>_jsx("em", { children: props.children }) }
+});`, {
+      supportedLangs: ['en-US', 'it-IT'],
+      defaultLang: 'en-US'
+    });
+    expect(inlined).toBe(`import { $lang } from "qwik-speak";
+const text = _jsx(Trans, {
+    value: $lang(\`it-IT\`) && \`<em>Libreria di internazionalizzazione (i18n) per tradurre testi, date e numeri nelle app Qwik</em>\` || \`<em>Internationalization (i18n) library to translate texts, dates and numbers in Qwik apps</em>\`,
+    components: { em: (props)=>_jsx("em", { children: props.children }) }
+});`);
+  });
+  test('transform pseudo-locale', async () => {
+    const inlined = await transform(`const title = $translate('app.title')`, {
+      supportedLangs: ['en-US', 'en-XA'],
+      defaultLang: 'en-US',
+      pseudoLocale: { lang: 'en-XA' }
+    });
+    expect(inlined).toBe(`import { $lang } from "qwik-speak";
+const title = $lang(\`en-XA\`) && \`[Ǫŵîķ Šþéåķ~~~]\` || \`Qwik Speak\``);
+  });
+  test('transform useTranslate', async () => {
+    const inlined = await transform(`const t = useTranslate('app');
+const title = t('title');
+const values = t(['title', 'subtitle'], undefined, 'it-IT');
+const dynamic = t(key);`, {
+      supportedLangs: ['en-US', 'it-IT'],
+      defaultLang: 'en-US'
+    });
+    expect(inlined).toBe(`import { $lang } from "qwik-speak";
+const t = useTranslate('app');
+const title = $lang(\`it-IT\`) && \`Qwik Speak\` || \`Qwik Speak\`;
+const values = [\`Qwik Speak\`,\`Traduci le tue app Qwik in qualsiasi lingua\`];
+const dynamic = t(key);`);
+  });
+  test('transform useTranslate in different scopes', async () => {
+    const inlined = await transform(`export const s_home = ()=>{
+    const t = useTranslate('home');
+    return t('text');
+};
+export const s_page = ()=>{
+    const t = useTranslate('page');
+    return t('text');
+};`, {
+      supportedLangs: ['en-US', 'it-IT'],
+      defaultLang: 'en-US'
+    });
+    expect(inlined).toBe(`import { $lang } from "qwik-speak";
+export const s_home = ()=>{
+    const t = useTranslate('home');
+    return $lang(\`it-IT\`) && \`<em>Libreria di internazionalizzazione (i18n) per tradurre testi, date e numeri nelle app Qwik</em>\` || \`<em>Internationalization (i18n) library to translate texts, dates and numbers in Qwik apps</em>\`;
+};
+export const s_page = ()=>{
+    const t = useTranslate('page');
+    return $lang(\`it-IT\`) && \`I'm a default value\` || \`I'm a default value\`;
+};`);
+  });
+  test('transpileScopedFn', () => {
+    expect(transpileScopedFn("t('greeting', { name: 'Qwik' }, 'it-IT')", '.', 'home'))
+      .toBe("$inline('home.greeting', { name: 'Qwik' }, undefined, 'it-IT')");
+    expect(transpileScopedFn('t(["title", "text"])', '.', 'home')).toBe('$inline(["home.title", "home.text"])');
+    expect(transpileScopedFn("t('app.title')", '.')).toBe("$inline('app.title')");
+  });
 });
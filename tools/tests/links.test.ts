@@ -0,0 +1,24 @@
+import { test, describe, expect } from 'vitest';
+
+import { getBrokenLinks, resolveLinks } from '../core/links';
+
+describe('links', () => {
+  const data = {
+    app: { brand: 'Qwik Speak', title: 'Welcome to @:app.brand!', subtitle: '@:(app.title) - @:home.missing' },
+    loop: { a: 'A @:loop.b', b: 'B @:loop.a' }
+  };
+
+  test('resolveLinks', () => {
+    expect(resolveLinks(data.app.title, data, '.', ['app.title'])).toBe('Welcome to Qwik Speak!');
+    expect(resolveLinks(data.app.subtitle, data, '.', ['app.subtitle']))
+      .toBe('Welcome to Qwik Speak! - @:home.missing');
+    expect(resolveLinks(data.loop.a, data, '.', ['loop.a'])).toBe('A B @:loop.a');
+  });
+  test('getBrokenLinks', () => {
+    expect(getBrokenLinks(data, '.')).toEqual([
+      'app.subtitle: @:home.missing - missing',
+      'loop.a: @:loop.a - circular',
+      'loop.b: @:loop.b - circular'
+    ]);
+  });
+});
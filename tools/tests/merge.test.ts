@@ -1,6 +1,6 @@
 import { test, describe, expect } from 'vitest';
 
-import { deepMerge, deepSet } from '../core/merge';
+import { deepMerge, deepSet, sortAssetFiles } from '../core/merge';
 
 describe('merge', () => {
   test('deepSet', () => {
@@ -14,4 +14,10 @@ describe('merge', () => {
     deepMerge(target, source);
     expect(target).toEqual({ key1: { subkey1: 'NewSubkey1', subkey2: 'Subkey2' } });
   });
+  test('sortAssetFiles', () => {
+    const files = ['app.json', 'home.json', 'tenant.json', 'scoped.json'];
+    expect(sortAssetFiles(files)).toEqual(['app.json', 'home.json', 'scoped.json', 'tenant.json']);
+    expect(sortAssetFiles(files, ['tenant', 'app'])).toEqual(['tenant.json', 'app.json', 'home.json', 'scoped.json']);
+    expect(sortAssetFiles(['home', 'app'], ['home', 'app'])).toEqual(['home', 'app']);
+  });
 });
@@ -238,3 +238,16 @@ export const mockAsset = JSON.stringify({
     "text": "<em>Internationalization (i18n) library to translate texts, dates and numbers in Qwik apps</em>"
   }
 }, null, 2);
+
+export const mockScopedSource = `import { component$ } from '@builder.io/qwik';
+import { useTranslate } from 'qwik-speak';
+
+export const Home = component$(() => {
+  const t = useTranslate('home');
+  return <h1>{t('title')}</h1>;
+});
+
+export const Page = component$(() => {
+  const t = useTranslate('page');
+  return <h1>{t('title')}</h1>;
+});`;
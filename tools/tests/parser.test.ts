@@ -1,6 +1,16 @@
 import { test, describe, expect } from 'vitest';
 
-import { getTranslateAlias, parse, parseSequenceExpressions, tokenize } from '../core/parser';
+import {
+  getBlockRange,
+  getScopedArguments,
+  getTranslateAlias,
+  getUseTranslateAliases,
+  parse,
+  parseJson,
+  parseSequenceExpressions,
+  splitArguments,
+  tokenize
+} from '../core/parser';
 
 describe('parser: tokenize', () => {
   test('tokenize', () => {
@@ -442,4 +452,47 @@ describe('alias', () => {
     alias = getTranslateAlias("import { $translate } from 'qwik-speak';");
     expect(alias).toBe('\\$translate');
   });
-});
\ No newline at end of file
+  test('getUseTranslateAliases', () => {
+    let aliases = getUseTranslateAliases(`const t = useTranslate('home');
+    const tr = useTranslate();`);
+    expect(aliases).toEqual([
+      { alias: '\\bt', prefix: 'home', start: 0, end: 62 },
+      { alias: '\\btr', prefix: undefined, start: 0, end: 62 }
+    ]);
+    aliases = getUseTranslateAliases(`import { useTranslate as ut } from 'qwik-speak';
+    const $t = ut("home.devs");`, false);
+    expect(aliases).toEqual([{ alias: '$t', prefix: 'home.devs', start: 0, end: 80 }]);
+  });
+  test('getBlockRange', () => {
+    const code = `const Home = () => { const t = useTranslate('home'); return { title: t('title') }; };
+const Page = () => { const t = useTranslate('page'); return t('title'); };`;
+    let range = getBlockRange(code, code.indexOf('const t'));
+    expect(code.slice(range.start, range.end)).toBe(" const t = useTranslate('home'); return { title: t('title') }; ");
+    range = getBlockRange(code, code.lastIndexOf('const t'));
+    expect(code.slice(range.start, range.end)).toBe(" const t = useTranslate('page'); return t('title'); ");
+    expect(getBlockRange(code, 0)).toEqual({ start: 0, end: code.length });
+  });
+  test('getScopedArguments', () => {
+    const args = getScopedArguments([
+      { type: 'ArrayExpression', elements: [{ type: 'Literal', value: 'title' }, { type: 'Literal', value: 'text' }] },
+      { type: 'ObjectExpression', properties: [] },
+      { type: 'Literal', value: 'it-IT' }
+    ], '.', 'home');
+    expect(args[0].elements?.map(element => element.value)).toEqual(['home.title', 'home.text']);
+    expect(args[2]).toBeUndefined();
+    expect(args[3]).toEqual({ type: 'Literal', value: 'it-IT' });
+  });
+  test('splitArguments', () => {
+    expect(splitArguments("t('greeting', { name: fn('a, b') }, 'it-IT')"))
+      .toEqual(["'greeting'", "{ name: fn('a, b') }", "'it-IT'"]);
+    expect(splitArguments("t(['title', 'text'])")).toEqual(["['title', 'text']"]);
+  });
+});
+
+describe('parser: parseJson', () => {
+  test('parseJson', () => {
+    let target = parseJson({}, JSON.stringify({ app: { title: 'Title', nav: { home: 'Home' } } }));
+    target = parseJson(target, JSON.stringify({ app: { nav: { home: 'Tenant home', page: 'Page' } } }));
+    expect(target).toEqual({ app: { title: 'Title', nav: { home: 'Tenant home', page: 'Page' } } });
+  });
+});
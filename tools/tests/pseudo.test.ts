@@ -0,0 +1,27 @@
+import { test, describe, expect } from 'vitest';
+
+import { pseudoLocalize, pseudoLocalizeData } from '../core/pseudo';
+// Same fixtures of the runtime pseudo-locale
+import { pseudoFixtures } from '../../src/tests/pseudo-fixtures';
+
+describe('pseudo', () => {
+  test('pseudoLocalize', () => {
+    expect(pseudoLocalize('Hi {{ name }}, read the <b>docs</b>', { expansion: 0 }))
+      .toBe('[Ĥî {{ name }}, ŕéåð ţĥé <b>ðöçš</b>]');
+    expect(pseudoLocalize('{count, plural, one {# item} other {# items}}', { expansion: 0 }, 'icu'))
+      .toBe('[{count, plural, one {# îţéɱ} other {# îţéɱš}}]');
+  });
+  test('pseudoLocalize fixtures', () => {
+    for (const [value, options, messageFormat, expected] of pseudoFixtures) {
+      expect(pseudoLocalize(value, options, messageFormat)).toBe(expected);
+    }
+  });
+  test('pseudoLocalizeData', () => {
+    const data = {
+      app: { title: 'Qwik', greeting: 'Hi from @:app.title', count: 1 }
+    };
+    expect(pseudoLocalizeData(data, { expansion: 0, brackets: ['⟦', '⟧'] }, '.')).toEqual({
+      app: { title: '⟦Ǫŵîķ⟧', greeting: '⟦Ĥî ƒŕöɱ Ǫŵîķ⟧', count: 1 }
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { test, describe, expect } from 'vitest';
+
+import { generateTypes, getKeys, getParamNames } from '../core/typings';
+
+describe('typings', () => {
+  test('getParamNames', () => {
+    expect(getParamNames('Qwik Speak')).toEqual([]);
+    expect(getParamNames('Hi! I am {{name}}, {{ name }}')).toEqual(['name']);
+    expect(getParamNames('{{ value, currency:EUR }} at {{ date, date }}')).toEqual(['value', 'date']);
+    expect(getParamNames('{count, plural, one {# item} other {# items}}')).toBeUndefined();
+  });
+  test('getKeys', () => {
+    const data = {
+      app: { title: 'Qwik Speak', greeting: 'Hi from @:app.title, {{name}}' },
+      devs: { one: '{{ value }} developer', other: '{{ value }} developers' }
+    };
+    const { keys, plurals } = getKeys(data, '.');
+    expect([...keys]).toEqual([
+      ['app.title', []],
+      ['app.greeting', ['name']],
+      ['devs.one', ['value']],
+      ['devs.other', ['value']]
+    ]);
+    expect([...plurals]).toEqual(['devs']);
+  });
+  test('generateTypes', () => {
+    const assets = {
+      'en-US': {
+        app: { app: { title: 'Qwik Speak', greeting: 'Hi! I am {{name}}' } },
+        home: { home: { text: '@:app.greeting - {{ date, date }}', 'it\'s': '' } }
+      },
+      'it-IT': {
+        app: { app: { title: 'Qwik Speak', greeting: 'Ciao! Sono {{name}}', icu: '{n, number}' } }
+      }
+    };
+    expect(generateTypes(assets, '.', '@@')).toBe(`/* eslint-disable */
+// Generated by Qwik Speak Extract: do not edit
+import 'qwik-speak';
+
+declare module 'qwik-speak' {
+  interface TranslationSeparators {
+    keySeparator: '.';
+    keyValueSeparator: '@@';
+  }
+  interface TranslationAssets {
+    'app': 'app.greeting' | 'app.icu' | 'app.title';
+    'home': 'home.it\\'s' | 'home.text';
+  }
+  interface TranslationKeys {
+    'app.greeting': { 'name': any; };
+    'app.icu': Record<string, any>;
+    'app.title': Record<string, never>;
+    'home.it\\'s': Record<string, never>;
+    'home.text': { 'date': any; 'name': any; };
+  }
+  interface PluralKeys {
+  }
+}
+`);
+  });
+  test('generateTypes with assets order', () => {
+    const assets = {
+      'en-US': {
+        app: { app: { greeting: 'Hi!' } },
+        override: { app: { greeting: 'Hi! I am {{name}}' } },
+        home: { home: { text: '@:app.greeting' } }
+      }
+    };
+    expect(generateTypes(assets, '.', '@@')).toContain('\'home.text\': { \'name\': any; };');
+    expect(generateTypes(assets, '.', '@@', ['override', 'app'])).toContain('\'home.text\': Record<string, never>;');
+  });
+});
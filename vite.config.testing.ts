@@ -0,0 +1,30 @@
+import { defineConfig } from 'vite';
+import { qwikVite } from '@builder.io/qwik/optimizer';
+import { readFile } from 'fs/promises';
+
+export default defineConfig(() => {
+  return {
+    publicDir: '',
+    build: {
+      outDir: 'testing',
+      target: 'es2020',
+      lib: {
+        entry: './src/testing/index.ts',
+        formats: ['es', 'cjs'],
+        fileName: (format) => `index.qwik.${format === 'es' ? 'mjs' : 'cjs'}`,
+      },
+      rollupOptions: {
+        output: {
+          banner: () => readFile('./banner.txt', 'utf8')
+        },
+        // Same Speak context of the app
+        external: [
+          'qwik-speak'
+        ]
+      }
+    },
+    plugins: [
+      qwikVite(),
+    ]
+  };
+});